@@ -4,13 +4,19 @@ import * as fs from "fs/promises"; // Need this for reading link files
 import * as path from "path";
 
 // Lib Imports
-import { config } from "./libs/config.js"; // Load config first
+import { config, resolve_target_settings } from "./libs/config.js"; // Load config first
 import {
   getChangedImageFiles,
   postSeparatedPRComments,
 } from "./libs/gemini/slide-compare.js";
 import { octokit } from "./libs/github/auth.js"; // Get initialized octokit
 import { credentials_json, drive } from "./libs/google-drive/auth.js"; // Needed for ownership check + drive client
+import { get_conversion } from "./libs/google-drive/convert.js";
+import { is_export_file } from "./libs/google-drive/export.js";
+import {
+  list_drive_tree,
+  set_incremental_listing,
+} from "./libs/google-drive/changes.js";
 import { delete_untracked } from "./libs/google-drive/delete.js";
 import {
   GOOGLE_DOC_MIME_TYPES,
@@ -18,16 +24,66 @@ import {
 } from "./libs/google-drive/file_types.js"; // Use MIME_TYPE_TO_EXTENSION for regex
 import { upload_file } from "./libs/google-drive/files.js";
 import { build_folder_structure } from "./libs/google-drive/folders.js";
-import { list_drive_files_recursively } from "./libs/google-drive/list.js";
+import { get_item_permissions } from "./libs/google-drive/list.js";
+import { move_drive_item } from "./libs/google-drive/move.js";
 import {
   accept_ownership_transfers,
   request_ownership_transfer,
 } from "./libs/google-drive/ownership.js";
+import {
+  DEFAULT_DRIVE_CONCURRENCY,
+  run_in_drive_pool,
+  set_drive_concurrency,
+} from "./libs/google-drive/pool.js";
+import {
+  DEFAULT_RESUMABLE_CHUNK_SIZE_MB,
+  DEFAULT_RESUMABLE_THRESHOLD_MB,
+  set_resumable_upload_options,
+} from "./libs/google-drive/resumable.js";
+import {
+  DEFAULT_RETRY_BUDGET,
+  publish_retry_summary,
+  set_retry_budget,
+} from "./libs/google-drive/retry.js";
+import {
+  get_shared_drive_managers,
+  resolve_shared_drive_id,
+  set_active_shared_drive,
+} from "./libs/google-drive/shared-drives.js";
 import { DriveItem } from "./libs/google-drive/types.js";
+import { partition_by_include } from "./libs/local-files/ignore.js";
 import { list_local_files } from "./libs/local-files/list.js";
+import {
+  conflict_copy_name,
+  get_conflicts,
+  publish_conflict_summary,
+  record_conflict,
+} from "./libs/sync-logic/conflicts.js";
 import { handle_drive_changes } from "./libs/sync-logic/handle-drive-changes.js";
+import { detect_file_moves } from "./libs/sync-logic/moves.js";
+import {
+  is_dry_run,
+  publish_plan,
+  record_planned_operation,
+  set_dry_run,
+} from "./libs/sync-logic/plan.js";
+import {
+  classify_sync_change,
+  commit_sync_state,
+  create_empty_sync_state,
+  create_sync_state_entry,
+  load_sync_state,
+  save_sync_state,
+} from "./libs/sync-logic/state.js";
 import { FileInfo } from "./libs/types.js";
 import { generate_visual_diffs_for_pr } from "./libs/visual-diffs/generate_visual_diffs.js";
+import { DEFAULT_OFFICE_CONVERTER } from "./libs/visual-diffs/local_render.js";
+import {
+  PREVIEW_IMAGE_FORMATS,
+  PreviewImageFormat,
+  VISUAL_DIFF_STORAGES,
+  VisualDiffStorage,
+} from "./libs/visual-diffs/types.js";
 
 // --- Get Inputs ---
 const trigger_event_name = core.getInput("trigger_event_name", {
@@ -46,6 +102,34 @@ const visual_diff_dpi = parseInt(
   core.getInput("visual_diff_dpi", { required: false }) || "72",
   10,
 ); // Default DPI
+const visual_diff_format = (core.getInput("visual_diff_format", {
+  required: false,
+}) || "png") as PreviewImageFormat; // Format of the rendered images
+const visual_diff_max_pixels = parseInt(
+  core.getInput("visual_diff_max_pixels", { required: false }) || "16000000",
+  10,
+); // Pixel cap per rendered page (0 = no cap)
+const visual_diff_thumbnail_width = parseInt(
+  core.getInput("visual_diff_thumbnail_width", { required: false }) || "320",
+  10,
+); // Thumbnail width in the preview comment (0 = no thumbnails)
+const visual_diff_threshold = parseFloat(
+  core.getInput("visual_diff_threshold", { required: false }) || "0.1",
+); // Percent of changed pixels
+const visual_diff_office_converter =
+  core.getInput("visual_diff_office_converter", { required: false }) ||
+  DEFAULT_OFFICE_CONVERTER; // Renders committed Office files as PDF
+const visual_diff_storage = (core.getInput("visual_diff_storage", {
+  required: false,
+}) || "branch") as VisualDiffStorage; // Where rendered previews are kept
+const visual_diff_drive_folder_id = core.getInput(
+  "visual_diff_drive_folder_id",
+  { required: false },
+);
+const visual_diff_drive_public = core.getBooleanInput(
+  "visual_diff_drive_public",
+  { required: false },
+); // Link-share Drive previews so the PR comment can embed them
 const git_user_name =
   core.getInput("git_user_name", { required: false }) || "github-actions[bot]";
 const git_user_email =
@@ -56,6 +140,34 @@ const enable_slide_compare = core.getBooleanInput("enable_slide_compare", {
   required: false,
 });
 const gemini_api_key = core.getInput("gemini_api_key", { required: false });
+// Dry run: compute and report the plan without touching Drive or Git
+const dry_run = core.getBooleanInput("dry_run", { required: false });
+// Incremental listing: fetch only Drive items changed since the previous run (Changes API)
+const incremental_listing = core.getBooleanInput("incremental_listing", {
+  required: false,
+});
+// Max concurrent Drive operations (listing, uploads, downloads, ownership checks, PDF exports)
+const drive_concurrency = parseInt(
+  core.getInput("drive_concurrency", { required: false }) ||
+    String(DEFAULT_DRIVE_CONCURRENCY),
+  10,
+);
+// Max retries of rate-limited or failed (5xx) Google API calls over the whole run
+const api_retry_budget = parseInt(
+  core.getInput("api_retry_budget", { required: false }) ||
+    String(DEFAULT_RETRY_BUDGET),
+  10,
+);
+
+// Resumable uploads: files of at least this many MiB are uploaded in chunks of the given MiB
+const resumable_upload_threshold_mb = parseFloat(
+  core.getInput("resumable_upload_threshold_mb", { required: false }) ||
+    String(DEFAULT_RESUMABLE_THRESHOLD_MB),
+);
+const resumable_upload_chunk_size_mb = parseFloat(
+  core.getInput("resumable_upload_chunk_size_mb", { required: false }) ||
+    String(DEFAULT_RESUMABLE_CHUNK_SIZE_MB),
+);
 
 // STEP 0: Define interface for the expected structure of the link file
 interface GDriveLinkData {
@@ -63,6 +175,7 @@ interface GDriveLinkData {
   name: string; // The original name of the file in Drive
   modifiedTime: string;
   mimeType?: string; // Mime type is helpful for reconstruction
+  sourceMd5?: string; // MD5 of the repo file a converted document was created from
 }
 
 // STEP 0: Define Regex for matching link files based on the construct_link_file_name format
@@ -73,12 +186,15 @@ const known_extensions_regex_part = Object.values(MIME_TYPE_TO_EXTENSION).join(
 );
 // Be careful with paths containing '--' in the base name itself. The regex needs to be somewhat specific.
 // It looks for '--', then likely ID chars (alphanumeric, -, _), then a dot, known extension, then the final suffix.
-const LINK_FILE_REGEX = new RegExp(
-  `--[a-zA-Z0-9_-]+\\.(${known_extensions_regex_part})${visual_diff_link_suffix.replace(
-    ".",
-    "\\.",
-  )}$`,
-);
+// Built per target because the link suffix can be overridden in sync.json.
+function build_link_file_regex(link_suffix: string): RegExp {
+  return new RegExp(
+    `--[a-zA-Z0-9_-]+\\.(${known_extensions_regex_part})${link_suffix.replace(
+      ".",
+      "\\.",
+    )}$`,
+  );
+}
 
 // STEP 0: Define function to parse link files and create mapping
 /**
@@ -150,10 +266,26 @@ async function sync_main() {
   const [owner, repo] = repo_full_name.split("/");
   core.info(`Syncing repository: ${owner}/${repo}`);
   core.info(`Triggered by event: ${trigger_event_name}`);
-  core.info(`Visual Diff Generation Enabled: ${enable_visual_diffs}`);
+  set_dry_run(dry_run);
+  set_incremental_listing(incremental_listing);
+  set_drive_concurrency(drive_concurrency);
+  set_retry_budget(api_retry_budget);
+  set_resumable_upload_options(
+    resumable_upload_threshold_mb,
+    resumable_upload_chunk_size_mb,
+  );
+  if (dry_run) {
+    core.info(
+      "Dry run enabled: no changes will be made to Google Drive or Git. A plan will be reported instead.",
+    );
+  }
+  core.info(`Visual Diff Generation Enabled (default): ${enable_visual_diffs}`);
 
-  // Validate visual diff inputs if enabled
-  if (enable_visual_diffs) {
+  // Validate visual diff inputs if any target uses them (per-target overrides are validated by the schema)
+  const any_visual_diffs_enabled = config.targets.forks.some(
+    (target) => target.visual_diffs?.enabled ?? enable_visual_diffs,
+  );
+  if (any_visual_diffs_enabled) {
     if (isNaN(visual_diff_dpi) || visual_diff_dpi <= 0) {
       core.setFailed(
         `Invalid visual_diff_dpi: ${core.getInput(
@@ -162,22 +294,68 @@ async function sync_main() {
       );
       return;
     }
+    if (
+      isNaN(visual_diff_threshold) ||
+      visual_diff_threshold < 0 ||
+      visual_diff_threshold > 100
+    ) {
+      core.setFailed(
+        `Invalid visual_diff_threshold: ${core.getInput(
+          "visual_diff_threshold",
+        )}. Must be a percentage between 0 and 100.`,
+      );
+      return;
+    }
+    if (!PREVIEW_IMAGE_FORMATS.includes(visual_diff_format)) {
+      core.setFailed(
+        `Invalid visual_diff_format: "${visual_diff_format}". Must be one of: ${PREVIEW_IMAGE_FORMATS.join(", ")}.`,
+      );
+      return;
+    }
+    if (isNaN(visual_diff_max_pixels) || visual_diff_max_pixels < 0) {
+      core.setFailed(
+        `Invalid visual_diff_max_pixels: ${core.getInput(
+          "visual_diff_max_pixels",
+        )}. Must be 0 or a positive number.`,
+      );
+      return;
+    }
+    if (isNaN(visual_diff_thumbnail_width) || visual_diff_thumbnail_width < 0) {
+      core.setFailed(
+        `Invalid visual_diff_thumbnail_width: ${core.getInput(
+          "visual_diff_thumbnail_width",
+        )}. Must be 0 or a positive number.`,
+      );
+      return;
+    }
+    if (!VISUAL_DIFF_STORAGES.includes(visual_diff_storage)) {
+      core.setFailed(
+        `Invalid visual_diff_storage: "${visual_diff_storage}". Must be one of: ${VISUAL_DIFF_STORAGES.join(", ")}.`,
+      );
+      return;
+    }
+    if (visual_diff_storage === "drive" && !visual_diff_drive_folder_id) {
+      core.setFailed(
+        'visual_diff_drive_folder_id is required when visual_diff_storage is "drive".',
+      );
+      return;
+    }
     if (!visual_diff_link_suffix.startsWith(".")) {
       core.setFailed(
         `Invalid visual_diff_link_suffix: "${visual_diff_link_suffix}". Should start with a dot.`,
       );
       return;
     }
-    core.info(
-      `Visual Diff Settings: Output Dir='${visual_diff_output_dir}', Link Suffix='${visual_diff_link_suffix}', DPI=${visual_diff_dpi}`,
-    );
   }
 
+  const visual_diff_pr_numbers = new Set<number>(); // Sync PRs already rendered in Step 5
+
   for (const target of config.targets.forks) {
     const folder_id = target.drive_folder_id;
     const on_untrack_action = target.on_untrack || "ignore";
+    const on_conflict_action = target.on_conflict || "drive-wins";
     core.startGroup(
-      `Processing Target Drive Folder: ${folder_id} (Untrack Action: ${on_untrack_action})`,
+      `Processing Target Drive Folder: ${folder_id} (Untrack Action: ${on_untrack_action}, Conflict Policy: ${on_conflict_action})`,
     );
     core.info(
       `Drive URL: ${
@@ -186,20 +364,70 @@ async function sync_main() {
       }`,
     );
 
+    // Apply per-target overrides on top of the global config and action inputs
+    const target_settings = resolve_target_settings(target, config.ignore, {
+      visual_diffs: {
+        enabled: enable_visual_diffs,
+        output_dir: visual_diff_output_dir,
+        link_suffix: visual_diff_link_suffix,
+        dpi: visual_diff_dpi,
+        format: visual_diff_format,
+        max_pixels: visual_diff_max_pixels,
+        thumbnail_width: visual_diff_thumbnail_width,
+        threshold: visual_diff_threshold,
+        office_converter: visual_diff_office_converter,
+        storage: visual_diff_storage,
+        drive_folder_id: visual_diff_drive_folder_id,
+        drive_public: visual_diff_drive_public,
+      },
+      git_user: { name: git_user_name, email: git_user_email },
+    });
+    const { local_path, visual_diffs, git_user } = target_settings;
+    const link_file_regex = build_link_file_regex(visual_diffs.link_suffix);
+    core.info(`Visual Diff Generation Enabled: ${visual_diffs.enabled}`);
+    if (visual_diffs.enabled) {
+      core.info(
+        `Visual Diff Settings: Output Dir='${visual_diffs.output_dir}', Link Suffix='${visual_diffs.link_suffix}', DPI=${visual_diffs.dpi}, Format=${visual_diffs.format}, Threshold=${visual_diffs.threshold}%, Storage=${visual_diffs.storage}`,
+      );
+    }
+    core.info(`Local path: '${local_path}'`);
+    core.debug(`Ignore patterns for target: ${target_settings.ignore.join(", ")}`);
+
+    // Shared Drive targets: listings are scoped to the drive and the ownership model doesn't apply
+    const shared_drive_id = await resolve_shared_drive_id(
+      folder_id,
+      target.shared_drive,
+    );
+    set_active_shared_drive(shared_drive_id);
+    if (shared_drive_id) {
+      core.info(
+        `Folder is on Shared Drive ${shared_drive_id}. Ownership transfers are skipped.`,
+      );
+    }
+
     let operation_failed = false; // Track if any critical part fails for this target
     let pr_details: { pr_number?: number; head_branch?: string } = {}; // Store PR info for visual diff
     let needs_recursive_ownership_check = true; // Default to true, potentially set to false during push event
 
     try {
+      // A missing local_path would make every Drive item look untracked, so never sync from it.
+      // The Drive -> Local steps still run, which is how a new mapping gets filled on its first run.
+      const local_path_stats = await fs.stat(local_path).catch(() => null);
+      const local_path_exists = !!local_path_stats?.isDirectory();
+
       // *** STEP 1 & 2: Sync Outgoing Changes & Handle Untracked (Push Trigger Only) ***
-      if (trigger_event_name === "push") {
+      if (trigger_event_name === "push" && local_path_exists) {
         core.info(
           "Step 1 & 2: Processing outgoing changes and untracked items (push trigger)...",
         );
 
         // STEP 1.1: List current local state
         core.info("Listing current local files for outgoing sync...");
-        const current_local_files = await list_local_files(".");
+        const current_local_files = await list_local_files(
+          local_path,
+          target_settings.ignore,
+          target_settings.include,
+        );
         const current_local_map = new Map(
           current_local_files.map((f) => [
             f.relative_path.replace(/\\/g, "/"),
@@ -210,16 +438,24 @@ async function sync_main() {
           `Found ${current_local_map.size} local files for outgoing sync.`,
         );
 
-        // STEP 1.2: Parse link files to get last known Drive state (if visual diffs enabled)
+        // STEP 1.2: Load the last synced state of each path from the committed manifest.
+        // Entries are carried over and refreshed as files are processed below.
+        const sync_state = await load_sync_state(folder_id);
+        const next_sync_state = sync_state
+          ? { ...sync_state, files: { ...sync_state.files } }
+          : create_empty_sync_state(folder_id);
+
+        // Parse link files to get last known Drive state (if visual diffs enabled).
+        // Only used as a fallback for paths the manifest has no entry for yet.
         let link_file_data_map = new Map<
           string,
           { drive_id: string; drive_modified_time: string }
         >();
-        if (enable_visual_diffs) {
+        if (visual_diffs.enabled) {
           // Create the map using the new function and the regex
           link_file_data_map = await create_link_file_data_map(
             current_local_files,
-            LINK_FILE_REGEX,
+            link_file_regex,
           );
         } else {
           core.info("Skipping link file parsing as visual diffs are disabled.");
@@ -232,14 +468,29 @@ async function sync_main() {
         let drive_files_map: Map<string, DriveItem>;
         let drive_folders_map: Map<string, DriveItem>;
         let initial_list_found_unowned = false; // Flag for ownership check optimization
+        let excluded_drive_paths: string[] = []; // Drive files outside the include globs
 
         try {
           // Ensure modifiedTime is requested for the comparison check later
-          const drive_data = await list_drive_files_recursively(folder_id);
+          const drive_data = await list_drive_tree(folder_id);
           // Create drive_files_map from drive_data.files array
+          // Drive files outside the target's include globs are not managed by this target
+          const [included_drive_files, excluded_drive_files] = partition_by_include(
+            drive_data.files.map((file) => ({
+              ...file,
+              path: file.path.replace(/\\/g, "/"), // Normalize path to use forward slashes
+            })),
+            target_settings.include,
+          );
+          excluded_drive_paths = excluded_drive_files.map((file) => file.path);
+          if (excluded_drive_paths.length > 0) {
+            core.info(
+              `Leaving ${excluded_drive_paths.length} Drive file(s) that do not match the include patterns untouched.`,
+            );
+          }
           drive_files_map = new Map(
-            drive_data.files.map((file) => [
-              file.path.replace(/\\/g, "/"), // Normalize path to use forward slashes
+            included_drive_files.map((file) => [
+              file.path,
               file.item, // The DriveItem (file object)
             ]),
           );
@@ -289,14 +540,59 @@ async function sync_main() {
           continue; // Skip to next target
         }
 
-        // STEP 1.4: Build Folder Structure
+        // STEP 1.4: Detect files moved or renamed in Git.
+        // Moving keeps the Drive file (comments, revisions, links) instead of uploading a new one
+        // and leaving the old one untracked. Folders are moved first (STEP 1.4.1), the remaining
+        // files after that (STEP 1.4.2).
+        const local_content_map = new Map(
+          Array.from(current_local_map).filter(
+            ([p]) =>
+              !p.endsWith(".gdrive.json") &&
+              !is_export_file(p) &&
+              !(visual_diffs.enabled && link_file_regex.test(p)),
+          ),
+        );
+        const link_drive_ids = new Map(
+          Array.from(link_file_data_map).map(([p, data]) => [p, data.drive_id]),
+        );
+        const file_moves = detect_file_moves(
+          local_content_map,
+          drive_files_map,
+          link_drive_ids,
+          sync_state,
+        );
+        // Drive file each local path is synced with, to recognize renamed folders by their children
+        const local_drive_ids = new Map(link_drive_ids);
+        for (const local_relative_path of local_content_map.keys()) {
+          const drive_file = drive_files_map.get(local_relative_path);
+          if (drive_file) local_drive_ids.set(local_relative_path, drive_file.id);
+        }
+        for (const move of file_moves) {
+          local_drive_ids.set(move.to_path, move.drive_item.id);
+        }
+
+        // Drive files before any move, to carry their sync state over to the new paths
+        const original_drive_files = new Map(
+          Array.from(drive_files_map).map(([p, item]) => [
+            item.id,
+            { path: p, modified_time: item.modifiedTime },
+          ]),
+        );
+
+        // STEP 1.4.1: Build Folder Structure
+        // Renamed or moved folders are moved in Drive; drive_files_map and drive_folders_map
+        // are updated to the new paths.
         core.info("Ensuring Drive folder structure matches local structure...");
         let folder_path_to_id_map: Map<string, string>;
         try {
+          // Export files never go to Drive, so neither do per-tab export folders
           folder_path_to_id_map = await build_folder_structure(
             folder_id,
-            current_local_files,
+            current_local_files.filter(
+              (file) => !is_export_file(file.relative_path),
+            ),
             drive_folders_map,
+            { drive_files: drive_files_map, local_drive_ids },
           ); // Pass existing map
         } catch (structureError) {
           core.error(
@@ -308,13 +604,86 @@ async function sync_main() {
           folder_path_to_id_map = new Map([["", folder_id]]);
         }
 
+        // STEP 1.4.2: Move the Drive files that were moved or renamed in Git (and not already
+        // moved along with their folder). The maps are updated so the steps below see the
+        // file at its new path.
+        const drive_paths_by_id = new Map(
+          Array.from(drive_files_map).map(([p, item]) => [item.id, p]),
+        );
+        await Promise.all(
+          file_moves.map(async ({ to_path, drive_item }) => {
+            const from_path = drive_paths_by_id.get(drive_item.id);
+            if (!from_path || from_path === to_path) return; // Moved with its folder
+            const from_dir = path.posix.dirname(from_path);
+            const to_dir = path.posix.dirname(to_path);
+            const old_parent_id =
+              from_dir === "."
+                ? folder_id
+                : drive_folders_map.get(from_dir)?.id;
+            const new_parent_id = folder_path_to_id_map.get(
+              to_dir === "." ? "" : to_dir,
+            );
+            if (!old_parent_id || !new_parent_id) {
+              core.warning(
+                `Could not resolve the Drive folders to move '${from_path}' to '${to_path}'. Uploading it as a new file instead.`,
+              );
+              return;
+            }
+            const new_name = path.posix.basename(to_path);
+            let modified_time = drive_item.modifiedTime;
+            if (is_dry_run()) {
+              record_planned_operation({
+                type: "move",
+                folder_id,
+                path: to_path,
+                drive_id: drive_item.id,
+                detail: `from '${from_path}'`,
+              });
+            } else {
+              const moved = await move_drive_item(
+                drive_item.id,
+                new_name,
+                new_parent_id,
+                old_parent_id,
+              );
+              if (!moved) return;
+              modified_time = moved.modified_time || modified_time;
+            }
+            drive_files_map.delete(from_path);
+            drive_files_map.set(to_path, {
+              ...drive_item,
+              name: new_name,
+              modifiedTime: modified_time,
+            });
+          }),
+        );
+
+        // Moved files keep their sync history, so changes made in Drive meanwhile still show up
+        // as conflicts at the new path (moving a file itself bumps its modifiedTime)
+        for (const [drive_path, drive_item] of drive_files_map) {
+          const original = original_drive_files.get(drive_item.id);
+          if (!original || original.path === drive_path) continue;
+          const state_entry = sync_state?.files[original.path];
+          if (state_entry && sync_state) {
+            const moved_entry =
+              state_entry.modified_time === original.modified_time
+                ? { ...state_entry, modified_time: drive_item.modifiedTime }
+                : state_entry;
+            sync_state.files[drive_path] = moved_entry;
+            next_sync_state.files[drive_path] = moved_entry;
+          }
+          if (!drive_files_map.has(original.path)) {
+            delete next_sync_state.files[original.path];
+          }
+        }
+
         // STEP 1.5: Upload/Update Files (with modifiedTime check)
         core.info("Processing local files for upload/update to Drive...");
         const files_processed_for_outgoing = new Set<string>(); // Track Drive paths corresponding to processed local files
 
-        // Use Promise.all for potential parallel uploads (adjust concurrency as needed)
+        // All files are processed at once; the Drive calls they make go through the shared
+        // Drive pool, which starts the next call as soon as any finishes (rolling window)
         const uploadPromises = [];
-        const CONCURRENT_UPLOADS = 5; // Limit concurrency to avoid rate limits
 
         for (const [local_relative_path, local_file] of current_local_map) {
           // Push an async function to the promises array
@@ -326,14 +695,20 @@ async function sync_main() {
                 );
                 return; // Skip upload/processing for this file type
               }
+              if (is_export_file(local_relative_path)) {
+                core.debug(
+                  ` -> Skipping content exported from Drive: ${local_relative_path}`,
+                );
+                return; // Generated from the Google Workspace file, never uploaded
+              }
 
               core.debug(
                 `Processing local file for outgoing sync: ${local_relative_path}`,
               );
               // Check if it's a link file first (these are handled by parsing, not upload)
               if (
-                enable_visual_diffs &&
-                LINK_FILE_REGEX.test(local_relative_path)
+                visual_diffs.enabled &&
+                link_file_regex.test(local_relative_path)
               ) {
                 core.debug(
                   ` -> Skipping GDrive link file itself: ${local_relative_path}`,
@@ -377,6 +752,14 @@ async function sync_main() {
                 drive_comparison_path,
               );
               const drive_target_name = path.basename(drive_comparison_path);
+              // Native Google type to convert to, per the target's `convert` rules
+              const conversion = get_conversion(
+                local_relative_path,
+                target_settings.convert,
+              );
+              const upload_conversion = conversion
+                ? { ...conversion, source_md5: local_file.hash }
+                : undefined;
               const local_dir_path = path.dirname(local_relative_path);
               const parent_dir_lookup =
                 local_dir_path === "."
@@ -393,10 +776,35 @@ async function sync_main() {
               }
 
               try {
-                // STEP 1.5.1: Check if Drive has a newer version based on link file data
-                // This check only runs if visual diffs are enabled (implying link files exist),
-                // and if the file exists on Drive with a modification time.
-                if (enable_visual_diffs && existing_drive_file?.modifiedTime) {
+                // STEP 1.5.1: Check whether Drive changed since the last sync.
+                // The sync-state manifest tells local and Drive changes apart for every file type;
+                // paths without an entry fall back to the link file modifiedTime (visual diffs only).
+                // Conflicts are resolved below according to the target's on_conflict policy.
+                let conflict_reason: string | null = null;
+                const state_entry = sync_state?.files[drive_comparison_path];
+                if (existing_drive_file && state_entry) {
+                  const change = classify_sync_change(
+                    state_entry,
+                    local_file.git_blob_sha,
+                    existing_drive_file,
+                    local_file.hash,
+                  );
+                  if (change === "changed_in_drive") {
+                    core.info(
+                      `[Skip Upload] Drive file '${drive_comparison_path}' (ID: ${existing_drive_file.id}) changed in Drive since the last sync and is unchanged locally.`,
+                    );
+                    return;
+                  }
+                  if (change === "changed_in_both") {
+                    conflict_reason = `Changed both locally and in Drive (modified at ${existing_drive_file.modifiedTime}) since the last sync at ${state_entry.modified_time}`;
+                  }
+                  core.debug(
+                    `Sync state for ${drive_comparison_path}: ${change}. Proceeding with upload/update logic.`,
+                  );
+                } else if (
+                  visual_diffs.enabled &&
+                  existing_drive_file?.modifiedTime
+                ) {
                   const link_data = link_file_data_map.get(
                     drive_comparison_path,
                   );
@@ -415,11 +823,8 @@ async function sync_main() {
                       !isNaN(link_mod_time_ms) &&
                       drive_mod_time_ms > link_mod_time_ms
                     ) {
-                      core.warning(
-                        `[Skip Upload] Drive file '${drive_comparison_path}' (ID: ${existing_drive_file.id}) modified at ${existing_drive_file.modifiedTime} is newer than local sync state recorded at ${link_data.drive_modified_time}.`,
-                      );
-                      // Skip the rest of the upload/update logic for this file
-                      return;
+                      // Without a sync state entry, local edits can't be told apart from Drive edits
+                      conflict_reason = `Drive version modified at ${existing_drive_file.modifiedTime} is newer than the link file state recorded at ${link_data.drive_modified_time}`;
                     } else if (
                       isNaN(drive_mod_time_ms) ||
                       isNaN(link_mod_time_ms)
@@ -444,12 +849,107 @@ async function sync_main() {
                   );
                 }
 
-                // STEP 1.5.2: Proceed with upload/update/rename if the modifiedTime check passed or didn't apply
+                // STEP 1.5.2: Resolve conflicts. git-wins and keep-both go on to upload the local version.
+                if (conflict_reason && existing_drive_file) {
+                  if (on_conflict_action === "drive-wins") {
+                    record_conflict({
+                      folder_id,
+                      path: drive_comparison_path,
+                      drive_id: existing_drive_file.id,
+                      policy: on_conflict_action,
+                      reason: conflict_reason,
+                      resolution: "Drive version kept, upload skipped",
+                    });
+                    return;
+                  }
+                  if (on_conflict_action === "fail") {
+                    record_conflict({
+                      folder_id,
+                      path: drive_comparison_path,
+                      drive_id: existing_drive_file.id,
+                      policy: on_conflict_action,
+                      reason: conflict_reason,
+                      resolution: "Left unresolved, upload skipped",
+                    });
+                    return;
+                  }
+                  if (on_conflict_action === "keep-both") {
+                    // Preserve the Drive version as a sibling copy before the local version replaces it
+                    const copy_name = conflict_copy_name(drive_target_name);
+                    if (is_dry_run()) {
+                      record_planned_operation({
+                        type: "create",
+                        folder_id,
+                        path: path.posix.join(
+                          path.posix.dirname(drive_comparison_path),
+                          copy_name,
+                        ),
+                        drive_id: existing_drive_file.id,
+                        detail: "copy of the Drive version (conflict)",
+                      });
+                    } else {
+                      await run_in_drive_pool(() =>
+                        drive.files.copy({
+                          fileId: existing_drive_file.id,
+                          requestBody: {
+                            name: copy_name,
+                            parents: [target_folder_id],
+                          },
+                          fields: "id,name",
+                          supportsAllDrives: true,
+                        }),
+                      );
+                    }
+                    record_conflict({
+                      folder_id,
+                      path: drive_comparison_path,
+                      drive_id: existing_drive_file.id,
+                      policy: on_conflict_action,
+                      reason: conflict_reason,
+                      resolution: `Drive version copied to '${copy_name}', local version uploaded`,
+                    });
+                  } else {
+                    record_conflict({
+                      folder_id,
+                      path: drive_comparison_path,
+                      drive_id: existing_drive_file.id,
+                      policy: on_conflict_action,
+                      reason: conflict_reason,
+                      resolution: "Local version uploaded over the Drive version",
+                    });
+                  }
+                }
+
+                // STEP 1.5.3: Proceed with upload/update/rename if the modifiedTime check passed or didn't apply
                 if (!existing_drive_file) {
                   core.info(
                     `[Upload Queue] New file: '${local_relative_path}' to folder ${target_folder_id}.`,
                   );
-                  await upload_file(local_file.path, target_folder_id);
+                  if (is_dry_run()) {
+                    record_planned_operation({
+                      type: "create",
+                      folder_id,
+                      path: local_relative_path,
+                      detail: `into folder ${target_folder_id}${
+                        conversion ? ` as ${conversion.mime_type}` : ""
+                      }`,
+                    });
+                  } else {
+                    const upload_result = await upload_file(
+                      local_file.path,
+                      target_folder_id,
+                      undefined,
+                      upload_conversion,
+                    );
+                    if (upload_result.success && upload_result.modified_time) {
+                      next_sync_state.files[drive_comparison_path] = {
+                        drive_id: upload_result.id,
+                        md5: upload_result.md5,
+                        modified_time: upload_result.modified_time,
+                        git_blob_sha: local_file.git_blob_sha,
+                      };
+                    }
+                  }
                 } else {
                   // Handle Google Docs (primarily renaming)
                   if (
@@ -460,17 +960,77 @@ async function sync_main() {
                     core.debug(
                       ` -> Drive file ${existing_drive_file.id} is a Google Doc type.`,
                     );
-                    if (existing_drive_file.name !== drive_target_name) {
+                    // Documents converted from this file are converted again when the source changed
+                    // (a document of another type than the rule asks for cannot be converted in place)
+                    if (
+                      upload_conversion &&
+                      existing_drive_file.mimeType ===
+                        upload_conversion.mime_type &&
+                      existing_drive_file.source_hash !== local_file.hash
+                    ) {
+                      core.info(
+                        `[Update Queue] Converted file '${local_relative_path}' (ID: ${
+                          existing_drive_file.id
+                        }). Source hash mismatch (Drive: ${
+                          existing_drive_file.source_hash || "N/A"
+                        }, Local: ${local_file.hash}).`,
+                      );
+                      if (is_dry_run()) {
+                        record_planned_operation({
+                          type: "update",
+                          folder_id,
+                          path: local_relative_path,
+                          drive_id: existing_drive_file.id,
+                          detail: `source hash ${
+                            existing_drive_file.source_hash || "N/A"
+                          } -> ${local_file.hash}, converted to ${
+                            upload_conversion.mime_type
+                          }`,
+                        });
+                      } else {
+                        const upload_result = await upload_file(
+                          local_file.path,
+                          target_folder_id,
+                          {
+                            id: existing_drive_file.id,
+                            name: existing_drive_file.name,
+                          },
+                          upload_conversion,
+                        );
+                        if (
+                          upload_result.success &&
+                          upload_result.modified_time
+                        ) {
+                          next_sync_state.files[drive_comparison_path] = {
+                            drive_id: upload_result.id,
+                            modified_time: upload_result.modified_time,
+                            git_blob_sha: local_file.git_blob_sha,
+                          };
+                        }
+                      }
+                    } else if (existing_drive_file.name !== drive_target_name) {
                       core.info(
                         `[Rename Queue] Google Doc '${existing_drive_file.name}' to '${drive_target_name}' (ID: ${existing_drive_file.id}).`,
                       );
                       // Note: This rename happens even if the content check was skipped, as it's a metadata change.
-                      await drive.files.update({
-                        fileId: existing_drive_file.id,
-                        requestBody: { name: drive_target_name },
-                        fields: "id,name",
-                        supportsAllDrives: true,
-                      });
+                      if (is_dry_run()) {
+                        record_planned_operation({
+                          type: "rename",
+                          folder_id,
+                          path: local_relative_path,
+                          drive_id: existing_drive_file.id,
+                          detail: `'${existing_drive_file.name}' -> '${drive_target_name}'`,
+                        });
+                      } else {
+                        await run_in_drive_pool(() =>
+                          drive.files.update({
+                            fileId: existing_drive_file.id,
+                            requestBody: { name: drive_target_name },
+                            fields: "id,name",
+                            supportsAllDrives: true,
+                          }),
+                        );
+                      }
                     } else {
                       core.debug(` -> Google Doc name matches.`);
                     }
@@ -483,6 +1043,11 @@ async function sync_main() {
                       existing_drive_file.hash !== local_file.hash;
                     const drive_file_needs_rename =
                       existing_drive_file.name !== drive_target_name;
+                    if (upload_conversion && drive_file_needs_update) {
+                      core.info(
+                        `'${local_relative_path}' matches a convert rule, but its Drive file (ID: ${existing_drive_file.id}) is not a Google document. Updating it without conversion; remove the Drive file to have it converted.`,
+                      );
+                    }
 
                     if (drive_file_needs_update) {
                       core.info(
@@ -492,24 +1057,76 @@ async function sync_main() {
                           existing_drive_file.hash || "N/A"
                         }, Local: ${local_file.hash}).`,
                       );
-                      await upload_file(local_file.path, target_folder_id, {
-                        id: existing_drive_file.id,
-                        name: existing_drive_file.name,
-                      });
+                      if (is_dry_run()) {
+                        record_planned_operation({
+                          type: "update",
+                          folder_id,
+                          path: local_relative_path,
+                          drive_id: existing_drive_file.id,
+                          detail: `hash ${existing_drive_file.hash || "N/A"} -> ${local_file.hash}`,
+                        });
+                      } else {
+                        const upload_result = await upload_file(
+                          local_file.path,
+                          target_folder_id,
+                          {
+                            id: existing_drive_file.id,
+                            name: existing_drive_file.name,
+                          },
+                        );
+                        if (
+                          upload_result.success &&
+                          upload_result.modified_time
+                        ) {
+                          next_sync_state.files[drive_comparison_path] = {
+                            drive_id: upload_result.id,
+                            md5: upload_result.md5,
+                            modified_time: upload_result.modified_time,
+                            git_blob_sha: local_file.git_blob_sha,
+                          };
+                        }
+                      }
                     } else if (drive_file_needs_rename) {
                       core.info(
                         `[Rename Queue] File '${existing_drive_file.name}' to '${drive_target_name}' (ID: ${existing_drive_file.id}). Content hash matches.`,
                       );
-                      await drive.files.update({
-                        fileId: existing_drive_file.id,
-                        requestBody: { name: drive_target_name },
-                        fields: "id,name",
-                        supportsAllDrives: true,
-                      });
+                      if (is_dry_run()) {
+                        record_planned_operation({
+                          type: "rename",
+                          folder_id,
+                          path: local_relative_path,
+                          drive_id: existing_drive_file.id,
+                          detail: `'${existing_drive_file.name}' -> '${drive_target_name}'`,
+                        });
+                      } else {
+                        const rename_result = await run_in_drive_pool(() =>
+                          drive.files.update({
+                            fileId: existing_drive_file.id,
+                            requestBody: { name: drive_target_name },
+                            fields: "id,name,modifiedTime",
+                            supportsAllDrives: true,
+                          }),
+                        );
+                        next_sync_state.files[drive_comparison_path] =
+                          create_sync_state_entry(
+                            {
+                              ...existing_drive_file,
+                              modifiedTime:
+                                rename_result.data.modifiedTime ||
+                                existing_drive_file.modifiedTime,
+                            },
+                            local_file.git_blob_sha,
+                          );
+                      }
                     } else {
                       core.debug(
                         ` -> File '${local_relative_path}' hash and name match Drive (ID: ${existing_drive_file.id}). No update needed.`,
                       );
+                      next_sync_state.files[drive_comparison_path] =
+                        create_sync_state_entry(
+                          existing_drive_file,
+                          local_file.git_blob_sha,
+                        );
                     }
                   }
                 }
@@ -524,23 +1141,11 @@ async function sync_main() {
               }
             })(),
           ); // Immediately invoke the async function
-
-          // Simple concurrency limiting
-          if (uploadPromises.length >= CONCURRENT_UPLOADS) {
-            core.debug(
-              `Waiting for batch of ${CONCURRENT_UPLOADS} uploads to finish...`,
-            );
-            await Promise.all(uploadPromises);
-            uploadPromises.length = 0; // Reset batch
-          }
-        }
-        // Wait for any remaining promises in the last batch
-        if (uploadPromises.length > 0) {
-          core.debug(
-            `Waiting for final batch of ${uploadPromises.length} uploads to finish...`,
-          );
-          await Promise.all(uploadPromises);
         }
+        core.debug(
+          `Waiting for ${uploadPromises.length} outgoing file(s) to finish...`,
+        );
+        await Promise.all(uploadPromises);
         core.info("Finished processing local files for upload/update.");
 
         // STEP 1.6: Handle Untracked Files/Folders (using the maps from the single listing)
@@ -560,7 +1165,10 @@ async function sync_main() {
           drive_folders_map.entries(),
         ).filter(
           ([folder_path]) =>
-            folder_path !== "" && !required_folder_paths.has(folder_path),
+            folder_path !== "" &&
+            !required_folder_paths.has(folder_path) &&
+            // Keep folders that still hold files outside the include globs
+            !excluded_drive_paths.some((p) => p.startsWith(folder_path + "/")),
         );
 
         core.info(
@@ -577,6 +1185,7 @@ async function sync_main() {
           ).join(", ")}`,
         );
 
+        const trashed_drive_paths = new Set<string>(); // Untracked Drive paths moved to Trash below
         const all_untracked_items: {
           path: string;
           item: DriveItem;
@@ -606,73 +1215,187 @@ async function sync_main() {
             core.info(
               `Processing ${all_untracked_items.length} untracked items based on on_untrack='${on_untrack_action}'...`,
             );
-            // Process untracked items sequentially for clarity, can be parallelized if needed
-            for (const {
-              path: untracked_path,
-              item: untracked_item,
-              isFolder,
-            } of all_untracked_items) {
-              core.info(
-                `Processing untracked ${
-                  isFolder ? "folder" : "file"
-                } in Drive: ${untracked_path} (ID: ${
-                  untracked_item.id
-                }, Owned: ${untracked_item.owned})`,
-              );
-
-              if (!untracked_item.owned) {
-                const owner_info = untracked_item.permissions?.find(
-                  (p) => p.role === "owner",
-                );
-                const current_owner_email = owner_info?.emailAddress;
-                core.warning(
-                  `Untracked item '${untracked_path}' (ID: ${
-                    untracked_item.id
-                  }) is not owned by the service account (Owner: ${
-                    current_owner_email || "unknown"
-                  }).`,
-                );
-                if (
-                  on_untrack_action === "request" &&
-                  current_owner_email &&
-                  current_owner_email !== credentials_json.client_email
-                ) {
-                  await request_ownership_transfer(
-                    untracked_item.id,
-                    current_owner_email,
-                  );
-                } else if (on_untrack_action === "remove") {
-                  core.warning(
-                    `Cannot remove '${untracked_path}' because it's not owned by the service account. Skipping removal.`,
-                  );
-                } else {
-                  core.info(
-                    `Ignoring untracked, un-owned item '${untracked_path}' (action: ${on_untrack_action}).`,
-                  );
-                }
-              } else {
-                core.info(
-                  `Untracked item '${untracked_path}' is owned by the service account.`,
-                );
-                if (on_untrack_action === "remove") {
-                  await delete_untracked(
-                    untracked_item.id,
-                    untracked_path,
-                    isFolder,
-                  );
-                } else if (on_untrack_action === "request") {
+            // Processed concurrently; the Drive calls are bounded by the Drive pool
+            await Promise.all(
+              all_untracked_items.map(
+                async ({
+                  path: untracked_path,
+                  item: untracked_item,
+                  isFolder,
+                }) => {
                   core.info(
-                    `Untracked item '${untracked_path}' is already owned. No action needed for 'request'.`,
+                    `Processing untracked ${
+                      isFolder ? "folder" : "file"
+                    } in Drive: ${untracked_path} (ID: ${
+                      untracked_item.id
+                    }, Owned: ${untracked_item.owned})`,
                   );
-                }
-              }
-            }
+
+                  if (shared_drive_id) {
+                    // The Shared Drive owns its items: whether the service account may trash them
+                    // depends on its member role (Content manager or Manager), not on ownership
+                    if (on_untrack_action === "remove") {
+                      if (untracked_item.capabilities?.canTrash === false) {
+                        core.warning(
+                          `Cannot remove '${untracked_path}': the service account needs the Content manager or Manager role on the Shared Drive. Skipping removal.`,
+                        );
+                      } else if (is_dry_run()) {
+                        record_planned_operation({
+                          type: "trash",
+                          folder_id,
+                          path: untracked_path,
+                          drive_id: untracked_item.id,
+                          detail: isFolder ? "folder" : "file",
+                        });
+                      } else if (
+                        await delete_untracked(
+                          untracked_item.id,
+                          untracked_path,
+                          isFolder,
+                        )
+                      ) {
+                        trashed_drive_paths.add(untracked_path);
+                      }
+                    } else if (on_untrack_action === "request") {
+                      const managers =
+                        await get_shared_drive_managers(shared_drive_id);
+                      core.warning(
+                        `Untracked item '${untracked_path}' (ID: ${
+                          untracked_item.id
+                        }) is not in the repository. Ask a Manager or Content manager of the Shared Drive to remove it: ${
+                          managers
+                            .map((manager) => `${manager.email} (${manager.role})`)
+                            .join(", ") || "no members with these roles found"
+                        }.`,
+                      );
+                    }
+                    return;
+                  }
+
+                  if (!untracked_item.owned) {
+                    // The owner comes with the listing; full permissions are only fetched when it
+                    // is missing there and we actually need it to request a transfer
+                    let current_owner_email = untracked_item.ownerEmail;
+                    if (!current_owner_email && on_untrack_action === "request") {
+                      const permissions = await get_item_permissions(untracked_item);
+                      current_owner_email = permissions.find(
+                        (p) => p.role === "owner",
+                      )?.emailAddress;
+                    }
+                    core.warning(
+                      `Untracked item '${untracked_path}' (ID: ${
+                        untracked_item.id
+                      }) is not owned by the service account (Owner: ${
+                        current_owner_email || "unknown"
+                      }).`,
+                    );
+                    if (
+                      on_untrack_action === "request" &&
+                      current_owner_email &&
+                      current_owner_email !== credentials_json.client_email
+                    ) {
+                      if (is_dry_run()) {
+                        record_planned_operation({
+                          type: "request_ownership",
+                          folder_id,
+                          path: untracked_path,
+                          drive_id: untracked_item.id,
+                          detail: `from ${current_owner_email}`,
+                        });
+                      } else {
+                        await request_ownership_transfer(
+                          untracked_item.id,
+                          current_owner_email,
+                          untracked_item.permissionIds,
+                        );
+                      }
+                    } else if (on_untrack_action === "remove") {
+                      core.warning(
+                        `Cannot remove '${untracked_path}' because it's not owned by the service account. Skipping removal.`,
+                      );
+                    } else {
+                      core.info(
+                        `Ignoring untracked, un-owned item '${untracked_path}' (action: ${on_untrack_action}).`,
+                      );
+                    }
+                  } else {
+                    core.info(
+                      `Untracked item '${untracked_path}' is owned by the service account.`,
+                    );
+                    if (
+                      on_untrack_action === "remove" &&
+                      untracked_item.capabilities?.canTrash === false
+                    ) {
+                      core.warning(
+                        `Cannot remove '${untracked_path}': the service account lacks the 'canTrash' capability on it. Skipping removal.`,
+                      );
+                    } else if (on_untrack_action === "remove") {
+                      if (is_dry_run()) {
+                        record_planned_operation({
+                          type: "trash",
+                          folder_id,
+                          path: untracked_path,
+                          drive_id: untracked_item.id,
+                          detail: isFolder ? "folder" : "file",
+                        });
+                      } else if (
+                        await delete_untracked(
+                          untracked_item.id,
+                          untracked_path,
+                          isFolder,
+                        )
+                      ) {
+                        trashed_drive_paths.add(untracked_path);
+                      }
+                    } else if (on_untrack_action === "request") {
+                      core.info(
+                        `Untracked item '${untracked_path}' is already owned. No action needed for 'request'.`,
+                      );
+                    }
+                  }
+                },
+              ),
+            );
           }
         } else {
           core.info(
             "No untracked items found in Drive based on initial listing.",
           );
         }
+
+        // STEP 1.7: Persist the sync state
+        // Forget paths that no longer exist on either side (or were just trashed in Drive).
+        // Paths deleted locally but still in Drive keep their entry, so the Drive to Git flow
+        // sees them as "changed locally" instead of restoring them.
+        for (const state_path of Object.keys(next_sync_state.files)) {
+          const trashed =
+            trashed_drive_paths.has(state_path) ||
+            Array.from(trashed_drive_paths).some((p) =>
+              state_path.startsWith(p + "/"),
+            );
+          if (
+            !current_local_map.has(state_path) &&
+            (!drive_files_map.has(state_path) || trashed)
+          ) {
+            delete next_sync_state.files[state_path];
+          }
+        }
+        if (is_dry_run()) {
+          core.info("Dry run: not updating the sync state manifest.");
+        } else {
+          try {
+            await save_sync_state(next_sync_state);
+            await commit_sync_state(folder_id, git_user.name, git_user.email);
+          } catch (stateError) {
+            core.warning(
+              `Failed to save sync state: ${(stateError as Error).message}`,
+            );
+          }
+        }
+      } else if (trigger_event_name === "push") {
+        core.warning(
+          `Local path '${local_path}' does not exist or is not a directory. Skipping outgoing sync (local -> Drive) and untracked handling; Drive content is still synced into it.`,
+        );
       } else {
         core.info(
           "Step 1 & 2: Skipping outgoing sync (local -> Drive) and untracked handling because trigger event was not 'push'.",
@@ -682,7 +1405,15 @@ async function sync_main() {
 
       // *** STEP 3: Accept Pending Ownership Transfers ***
       // Optimization: Only run the recursive check if needed (determined during push trigger list)
-      if (needs_recursive_ownership_check) {
+      if (is_dry_run()) {
+        core.info(
+          "Step 3: Skipping acceptance of pending ownership transfers (dry run).",
+        );
+      } else if (shared_drive_id) {
+        core.info(
+          "Step 3: Skipping ownership transfers (items on a Shared Drive are owned by the drive).",
+        );
+      } else if (needs_recursive_ownership_check) {
         core.info(
           "Step 3: Checking for and accepting pending ownership transfers (recursive check needed)...",
         );
@@ -713,11 +1444,15 @@ async function sync_main() {
         // Note: handle_drive_changes includes its own Drive list and comparison logic, optimized separately
         pr_details = await handle_drive_changes(
           folder_id,
-
+          local_path,
           trigger_event_name,
-          git_user_name,
-          git_user_email,
-          visual_diff_output_dir,
+          git_user.name,
+          git_user.email,
+          visual_diffs.output_dir,
+          target_settings.ignore,
+          target_settings.include,
+          on_conflict_action,
+          target_settings.export,
         );
       } else {
         core.warning(
@@ -727,7 +1462,7 @@ async function sync_main() {
 
       // *** STEP 5: Generate Visual Diffs (if enabled and PR was created/updated) ***
       if (
-        enable_visual_diffs &&
+        visual_diffs.enabled &&
         pr_details.pr_number &&
         pr_details.head_branch &&
         !operation_failed
@@ -796,19 +1531,28 @@ async function sync_main() {
             head_sha,
             owner,
             repo,
-            output_base_dir: visual_diff_output_dir,
-            link_file_suffix: visual_diff_link_suffix,
-            resolution_dpi: visual_diff_dpi,
-            git_user_name,
-            git_user_email,
+            output_base_dir: visual_diffs.output_dir,
+            link_file_suffix: visual_diffs.link_suffix,
+            resolution_dpi: visual_diffs.dpi,
+            image_format: visual_diffs.format,
+            max_pixels: visual_diffs.max_pixels,
+            thumbnail_width: visual_diffs.thumbnail_width,
+            change_threshold_percent: visual_diffs.threshold,
+            office_converter: visual_diffs.office_converter,
+            storage: visual_diffs.storage,
+            drive_folder_id: visual_diffs.drive_folder_id || null,
+            drive_public: visual_diffs.drive_public,
+            git_user_name: git_user.name,
+            git_user_email: git_user.email,
           });
+          visual_diff_pr_numbers.add(pr_details.pr_number);
         } catch (diffError) {
           core.error(
             `Visual diff generation failed: ${(diffError as Error).message}`,
           );
           // Optionally mark target as failed if diffs fail: operation_failed = true;
         }
-      } else if (enable_visual_diffs) {
+      } else if (visual_diffs.enabled) {
         if (operation_failed) {
           core.info(
             "Skipping Step 5 (Visual Diffs) because previous steps failed.",
@@ -821,10 +1565,12 @@ async function sync_main() {
       }
 
       // *** STEP 6: Compare Slide Images and Comment on PR (if enabled and PR was created/updated) ***
+      // Gemini reads the page images from the PR diff, so they must be committed to the PR branch
       if (
         enable_slide_compare &&
         pr_details.pr_number &&
         pr_details.head_branch &&
+        visual_diffs.storage === "branch" &&
         !operation_failed
       ) {
         core.info(
@@ -857,7 +1603,7 @@ async function sync_main() {
           // Set environment variables for compare-images
           process.env.GEMINI_API_KEY = gemini_api_key;
           process.env.PR_NUMBER = pr_details.pr_number.toString();
-          process.env.DIFF_DIR = visual_diff_output_dir;
+          process.env.DIFF_DIR = visual_diffs.output_dir;
           process.env.GITHUB_REPOSITORY_OWNER = owner;
           process.env.GITHUB_REPOSITORY = `${owner}/${repo}`;
 
@@ -866,7 +1612,7 @@ async function sync_main() {
             owner,
             repo,
             pr_details.pr_number,
-            visual_diff_output_dir,
+            visual_diffs.output_dir,
           );
 
           if (changedImageFiles.length > 0) {
@@ -878,7 +1624,7 @@ async function sync_main() {
               owner,
               repo,
               pr_details.pr_number,
-              visual_diff_output_dir,
+              visual_diffs.output_dir,
             );
             core.info(
               "Posted separated English and Japanese slide comparison comments to PR",
@@ -910,6 +1656,10 @@ async function sync_main() {
           core.info(
             "Skipping Step 6 (Slide Comparison) because no PR was created/updated in Step 4.",
           );
+        } else {
+          core.info(
+            `Skipping Step 6 (Slide Comparison) because visual diff storage is '${visual_diffs.storage}': page images aren't part of the PR diff. The preview comment links them instead.`,
+          );
         }
       }
     } catch (error) {
@@ -936,6 +1686,81 @@ async function sync_main() {
   } // End of loop through targets
 
   core.info("All sync targets processed.");
+
+  // *** Visual Diffs for the Triggering Pull Request ***
+  // Any PR gets previews of the PDF/Office files committed to it (e.g. a PR opened by a
+  // person updating deck.pdf), not only the sync PRs rendered per target in Step 5.
+  // Uses the action inputs, as a PR isn't tied to one target.
+  const triggering_pr = github.context.payload.pull_request;
+  if (
+    trigger_event_name === "pull_request" &&
+    enable_visual_diffs &&
+    triggering_pr &&
+    !dry_run
+  ) {
+    if (visual_diff_pr_numbers.has(triggering_pr.number)) {
+      core.info(
+        `Visual diffs for PR #${triggering_pr.number} were already generated in Step 5.`,
+      );
+    } else if (triggering_pr.head?.repo?.full_name !== `${owner}/${repo}`) {
+      core.info(
+        `Skipping visual diffs for PR #${triggering_pr.number}: its branch is in another repository and can't be pushed to.`,
+      );
+    } else {
+      core.info(
+        `Generating visual diffs for the triggering PR #${triggering_pr.number}...`,
+      );
+      try {
+        await generate_visual_diffs_for_pr({
+          octokit,
+          drive,
+          pr_number: triggering_pr.number,
+          head_branch: triggering_pr.head.ref,
+          head_sha: triggering_pr.head.sha,
+          owner,
+          repo,
+          output_base_dir: visual_diff_output_dir,
+          link_file_suffix: visual_diff_link_suffix,
+          resolution_dpi: visual_diff_dpi,
+          image_format: visual_diff_format,
+          max_pixels: visual_diff_max_pixels,
+          thumbnail_width: visual_diff_thumbnail_width,
+          change_threshold_percent: visual_diff_threshold,
+          office_converter: visual_diff_office_converter,
+          storage: visual_diff_storage,
+          drive_folder_id: visual_diff_drive_folder_id || null,
+          drive_public: visual_diff_drive_public,
+          git_user_name,
+          git_user_email,
+        });
+      } catch (diffError) {
+        core.error(
+          `Visual diff generation for PR #${triggering_pr.number} failed: ${
+            (diffError as Error).message
+          }`,
+        );
+      }
+    }
+  }
+
+  await publish_conflict_summary();
+  await publish_retry_summary();
+  const unresolved_conflicts = get_conflicts().filter(
+    (conflict) => conflict.policy === "fail",
+  );
+
+  if (dry_run) {
+    const plan_path = await publish_plan();
+    core.setOutput("dry_run_plan", plan_path);
+  }
+
+  if (unresolved_conflicts.length > 0) {
+    core.setFailed(
+      `${unresolved_conflicts.length} conflict(s) left unresolved (on_conflict: fail): ${unresolved_conflicts
+        .map((conflict) => conflict.path)
+        .join(", ")}`,
+    );
+  }
 }
 
 // --- Run the main action ---
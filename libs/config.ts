@@ -1,27 +1,190 @@
 import * as core from "@actions/core";
-import { readFileSync } from "fs";
+import { existsSync, readFileSync } from "fs";
+import * as path from "path";
+import { Ajv, ErrorObject } from "ajv";
+import { parse as parse_jsonc, ParseError, printParseErrorCode } from "jsonc-parser";
+import { parse as parse_yaml } from "yaml";
+import sync_schema from "../sync.schema.json" with { type: "json" };
+import { ConversionRule } from "./google-drive/convert.js";
+import { ExportFormats } from "./google-drive/export.js";
+import { ConflictPolicy } from "./sync-logic/conflicts.js";
+import { PreviewImageFormat, VisualDiffStorage } from "./visual-diffs/types.js";
 
 // Config types
+export interface VisualDiffSettings {
+  enabled: boolean;
+  output_dir: string;
+  link_suffix: string;
+  dpi: number;
+  format: PreviewImageFormat; // Image format of rendered pages, diff images and thumbnails
+  max_pixels: number; // Pixel cap per rendered page, oversized pages get a lower DPI (0 = no cap)
+  thumbnail_width: number; // Width of the page thumbnails in the preview comment (0 = none)
+  threshold: number; // Minimum share of changed pixels (in %) for a page to count as changed
+  office_converter: string; // Command rendering committed Office files as PDF ({input}, {output_dir})
+  storage: VisualDiffStorage; // Where rendered previews are kept
+  drive_folder_id: string; // Drive folder for storage "drive" ("" = not set)
+  drive_public: boolean; // Share Drive previews with anyone with the link, so the PR comment can embed them
+}
+
+export interface GitUserSettings {
+  name: string;
+  email: string;
+}
+
 export interface DriveTarget {
   drive_folder_id: string;
-  drive_url: string;
+  drive_url?: string;
+  local_path: string; // Repo subdirectory mapped onto the Drive folder ("." = whole repo)
   on_untrack: "ignore" | "remove" | "request";
+  on_conflict: ConflictPolicy; // Resolution for paths changed in both Git and Drive since the last sync
+  shared_drive?: boolean; // Folder is on a Shared Drive (auto-detected when unset)
+  // Per-target overrides; unset fields fall back to the global config / action inputs
+  ignore?: string[];
+  include?: string[]; // Only files matching one of these globs are synced
+  convert?: ConversionRule[]; // Upload matching files as native Google Docs/Sheets/Slides
+  export?: ExportFormats; // Export Google Workspace files into the repo in these formats
+  visual_diffs?: Partial<VisualDiffSettings>;
+  git_user?: Partial<GitUserSettings>;
 }
 
 export interface SyncConfig {
-  source: { repo: string };
+  source?: { repo?: string };
   ignore: string[];
   targets: { forks: DriveTarget[] };
 }
 
+// Effective settings for one target after applying its overrides
+export interface ResolvedTargetSettings {
+  local_path: string;
+  ignore: string[];
+  include: string[];
+  convert: ConversionRule[];
+  export: ExportFormats;
+  visual_diffs: VisualDiffSettings;
+  git_user: GitUserSettings;
+}
+
+/**
+ * Converts an Ajv JSON pointer (e.g. "/targets/forks/0/on_untrack") into a
+ * readable JSON path (e.g. "$.targets.forks[0].on_untrack").
+ */
+function to_json_path(instance_path: string): string {
+  if (!instance_path) return "$";
+  return "$" + instance_path
+    .split("/")
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .map(segment => /^\d+$/.test(segment) ? `[${segment}]` : `.${segment}`)
+    .join("");
+}
+
+/**
+ * Formats a single Ajv error as "<json path>: <message>", pointing at the offending
+ * property itself for `required` and `additionalProperties` errors.
+ */
+function format_validation_error(error: ErrorObject): string {
+  const json_path = to_json_path(error.instancePath);
+  if (error.keyword === "required") {
+    return `${json_path}.${error.params.missingProperty}: is required`;
+  }
+  if (error.keyword === "additionalProperties") {
+    return `${json_path}.${error.params.additionalProperty}: is not a known property`;
+  }
+  if (error.keyword === "enum") {
+    return `${json_path}: ${error.message} (${(error.params.allowedValues as string[]).join(", ")})`;
+  }
+  return `${json_path}: ${error.message}`;
+}
+
+/**
+ * Validates parsed config data against sync.schema.json. Defaults declared in the
+ * schema (e.g. `on_untrack: "ignore"`) are filled into `data` in place.
+ * @returns The list of formatted validation errors (empty when valid).
+ */
+export function validate_sync_config(data: unknown): string[] {
+  const ajv = new Ajv({ allErrors: true, useDefaults: true, strict: false });
+  const validate = ajv.compile(sync_schema);
+  if (validate(data)) return [];
+  return (validate.errors || []).map(format_validation_error);
+}
+
+/**
+ * Merges a target's overrides with the global config and the action-level defaults.
+ * A target `ignore` list replaces the global one; visual diff and Git user settings
+ * are merged field by field.
+ */
+export function resolve_target_settings(
+  target: DriveTarget,
+  global_ignore: string[],
+  defaults: { visual_diffs: VisualDiffSettings; git_user: GitUserSettings }
+): ResolvedTargetSettings {
+  return {
+    // Normalize "./docs/marketing/" style paths to "docs/marketing"
+    local_path: path.posix.normalize(target.local_path ?? ".").replace(/\/+$/, "") || ".",
+    ignore: target.ignore ?? global_ignore,
+    include: target.include ?? [],
+    convert: target.convert ?? [],
+    export: target.export ?? {},
+    visual_diffs: { ...defaults.visual_diffs, ...target.visual_diffs },
+    git_user: { ...defaults.git_user, ...target.git_user },
+  };
+}
+
+// Candidate config files checked (in order) when the config_path input is not set
+const DEFAULT_CONFIG_PATHS = ["sync.json", "sync.jsonc", "sync.yaml", "sync.yml"];
+
+/**
+ * Resolves which config file to load: the explicit config_path input if given,
+ * otherwise the first default candidate that exists in the repository root.
+ */
+function resolve_config_path(config_path_input: string): string {
+  if (config_path_input) return config_path_input;
+  return DEFAULT_CONFIG_PATHS.find(candidate => existsSync(candidate)) ?? DEFAULT_CONFIG_PATHS[0];
+}
+
+/**
+ * Converts a character offset into a 1-based "line:column" position for error messages.
+ */
+function offset_to_position(text: string, offset: number): string {
+  const lines_before = text.slice(0, offset).split("\n");
+  return `${lines_before.length}:${lines_before[lines_before.length - 1].length + 1}`;
+}
+
+/**
+ * Parses config file text based on the file extension.
+ * `.yaml`/`.yml` files are parsed as YAML; everything else as JSON with comments
+ * and trailing commas allowed (a superset of strict JSON).
+ */
+export function parse_config_text(text: string, file_path: string): unknown {
+  const extension = path.extname(file_path).toLowerCase();
+  if (extension === ".yaml" || extension === ".yml") {
+    return parse_yaml(text);
+  }
+  const parse_errors: ParseError[] = [];
+  const data = parse_jsonc(text, parse_errors, { allowTrailingComma: true, disallowComments: false });
+  if (parse_errors.length > 0) {
+    const messages = parse_errors.map(e => `${printParseErrorCode(e.error)} at ${offset_to_position(text, e.offset)}`);
+    throw new Error(`Invalid JSON: ${messages.join(", ")}`);
+  }
+  return data;
+}
+
 // Load config
+const config_path = resolve_config_path(core.getInput("config_path", { required: false }));
 let config: SyncConfig;
 try {
-  config = JSON.parse(readFileSync("sync.json", "utf-8"));
+  core.info(`Loading sync config from ${config_path}`);
+  const raw_config = parse_config_text(readFileSync(config_path, "utf-8"), config_path);
+  const validation_errors = validate_sync_config(raw_config);
+  if (validation_errors.length > 0) {
+    validation_errors.forEach(message => core.error(`${config_path}: ${message}`));
+    throw new Error(`${validation_errors.length} validation error(s) found`);
+  }
+  config = raw_config as SyncConfig;
 } catch (error) {
-  core.setFailed("Failed to load sync.json: " + (error as Error).message);
+  core.setFailed(`Failed to load ${config_path}: ` + (error as Error).message);
   // Exit in the main script, not here, to allow potential cleanup or specific handling
-  throw new Error("sync.json loading failed"); // Re-throw to signal failure
+  throw new Error(`${config_path} loading failed`); // Re-throw to signal failure
 }
 
-export { config };
+export { config, config_path };
@@ -1,6 +1,14 @@
 import { GoogleGenAI, createUserContent } from "@google/genai";
 import { Octokit } from "@octokit/rest";
 import fetch from "node-fetch";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  PAGE_CHANGES_FILE,
+  PageChange,
+  PageChangeSummary,
+  is_page_image,
+} from "../visual-diffs/pixel_diff.js";
 
 /**
  * Fetches an image from a URL and converts it to base64 along with its MIME type.
@@ -488,15 +496,17 @@ export async function getChangedImageFiles(
 
     console.log(`Successfully fetched ${files.length} files from PR`);
 
-    // Filter files that are images in the diff directory
+    // Filter files that are page images in the diff directory (not the diff images next to them).
+    // Removed pages are kept: deleted pages are reported, pages that moved are skipped later.
     return files
       .filter(
         (file) =>
           file.filename.startsWith(diffDir + "/") &&
-          file.filename.endsWith(".png") &&
+          is_page_image(file.filename) &&
           (file.status === "added" ||
             file.status === "modified" ||
-            file.status === "changed")
+            file.status === "changed" ||
+            file.status === "removed")
       )
       .map((file) => file.filename);
   } catch (error: any) {
@@ -536,6 +546,31 @@ export async function getChangedImageFiles(
   }
 }
 
+/**
+ * Reads how a page changed from the changes.json written next to the page images (by the
+ * visual diff step, in the checked-out PR branch): its status, page number and share of
+ * changed pixels. The image of a page that moved resolves to the page it moved to.
+ */
+function getPageChange(file: string): PageChange | null {
+  try {
+    const summary: PageChangeSummary = JSON.parse(
+      fs.readFileSync(path.join(path.dirname(file), PAGE_CHANGES_FILE), "utf-8")
+    );
+    const name = path.basename(file);
+    // A removed page can share its name with a page inserted at the same spot
+    return (
+      summary.pages.find((p) => p.page === name && p.status !== "removed") ??
+      summary.pages.find((p) => p.page === name) ??
+      summary.pages.find(
+        (p) => p.status === "moved" && p.previous_page === name
+      ) ??
+      null
+    );
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Posts a comment to a PR with image differences.
  */
@@ -645,15 +680,35 @@ export async function generatePRCommentsSeparated(
           .join("/");
         console.log(`Processing slide: ${file} (encoded: ${encodedFile})`);
 
-        const urls = await getBeforeAfterUrls(owner, repo, prNumber, file);
-
-        if (urls && (urls.before || urls.after)) {
+        // Pages are matched across insertions and deletions, so file names aren't page numbers
+        const pageChange = getPageChange(file);
+        const pageLabel = pageChange?.position
+          ? String(pageChange.position)
+          : slidePage.replace(/\.(png|jpg|webp)$/, "");
+        if (pageChange?.status === "unchanged") {
+          continue;
+        }
+        if (pageChange?.status === "moved") {
+          if (pageChange.page !== slidePage) {
+            continue; // The image it moved from, reported with the page it moved to
+          }
+          // Same page at a new place: nothing to summarize
+          englishCommentParts.push(`### Page ${pageLabel}\n`);
           englishCommentParts.push(
-            `### Page ${slidePage.replace(".png", "")}\n`
+            `**Page Moved** (previously ${pageChange.previous_page})\n`
           );
+          japaneseCommentParts.push(`### ページ ${pageLabel}\n`);
           japaneseCommentParts.push(
-            `### ページ ${slidePage.replace(".png", "")}\n`
+            `**ページが移動されました**（以前: ${pageChange.previous_page}）\n`
           );
+          continue;
+        }
+
+        const urls = await getBeforeAfterUrls(owner, repo, prNumber, file);
+
+        if (urls && (urls.before || urls.after)) {
+          englishCommentParts.push(`### Page ${pageLabel}\n`);
+          japaneseCommentParts.push(`### ページ ${pageLabel}\n`);
 
           // Apply encoding to URLs
           const encodedBefore = urls.before
@@ -684,6 +739,15 @@ export async function generatePRCommentsSeparated(
             : "";
 
           if (encodedBefore && encodedAfter) {
+            const changePercent = pageChange?.change_percent ?? null;
+            if (changePercent !== null) {
+              englishCommentParts.push(
+                `_${changePercent}% of pixels changed_\n`
+              );
+              japaneseCommentParts.push(
+                `_ピクセルの${changePercent}%が変更されました_\n`
+              );
+            }
             // Both before and after exist - compare them
             try {
               const diffSummaryEnglish = await summarizeImageDiffEnglish(
@@ -760,7 +824,7 @@ export async function generatePRCommentsSeparated(
         console.error(`Error processing file ${file}: ${fileError.message}`);
         englishCommentParts.push(
           `### Error processing page ${
-            file.split("/").pop()?.replace(".png", "") || ""
+            file.split("/").pop()?.replace(/\.(png|jpg|webp)$/, "") || ""
           }\n`
         );
         englishCommentParts.push(
@@ -769,7 +833,7 @@ export async function generatePRCommentsSeparated(
 
         japaneseCommentParts.push(
           `### ページの処理中にエラーが発生しました ${
-            file.split("/").pop()?.replace(".png", "") || ""
+            file.split("/").pop()?.replace(/\.(png|jpg|webp)$/, "") || ""
           }\n`
         );
         japaneseCommentParts.push(
@@ -910,7 +974,7 @@ export async function generatePRComment(
         const urls = await getBeforeAfterUrls(owner, repo, prNumber, file);
 
         if (urls && (urls.before || urls.after)) {
-          commentParts.push(`### Page ${slidePage.replace(".png", "")}\n`);
+          commentParts.push(`### Page ${slidePage.replace(/\.(png|jpg|webp)$/, "")}\n`);
 
           // Apply encoding to URLs
           const encodedBefore = urls.before
@@ -989,7 +1053,7 @@ export async function generatePRComment(
         console.error(`Error processing file ${file}: ${fileError.message}`);
         commentParts.push(
           `### Error processing page ${
-            file.split("/").pop()?.replace(".png", "") || ""
+            file.split("/").pop()?.replace(/\.(png|jpg|webp)$/, "") || ""
           }\n`
         );
         commentParts.push(
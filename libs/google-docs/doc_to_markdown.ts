@@ -0,0 +1,419 @@
+import * as core from "@actions/core";
+import * as fs_promises from "fs/promises";
+import * as path from "path";
+import { docs_v1, drive_v3 } from "googleapis";
+import { JWT } from "google-auth-library";
+import { run_in_drive_pool } from "../google-drive/pool.js";
+import { DriveItem } from "../google-drive/types.js";
+import { fetch_google_doc_comments, fetch_google_doc_json } from "./fetch.js";
+
+// Inline images are saved next to the Markdown file, named after it and the image's object ID:
+// "Report--XYZ123.doc.md" -> "Report--XYZ123.doc.image-abc123.png"
+const DOC_IMAGE_FILE_REGEX = /^(.*)\.image-[a-zA-Z0-9_-]+\.[a-zA-Z0-9]+$/;
+
+const IMAGE_EXTENSIONS: { [content_type: string]: string } = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/bmp": "bmp",
+  "image/svg+xml": "svg",
+};
+
+const HEADING_LEVELS: { [named_style_type: string]: number } = {
+  TITLE: 1,
+  HEADING_1: 1,
+  HEADING_2: 2,
+  HEADING_3: 3,
+  HEADING_4: 4,
+  HEADING_5: 5,
+  HEADING_6: 6,
+};
+
+// Text in these fonts is rendered as inline code
+const MONOSPACE_FONTS = new Set([
+  "Consolas", "Courier", "Courier New", "Courier Prime", "Cousine", "Fira Code", "Inconsolata",
+  "JetBrains Mono", "Roboto Mono", "Source Code Pro", "Space Mono", "Ubuntu Mono",
+]);
+
+interface InlineStyle {
+  bold: boolean;
+  italic: boolean;
+  strikethrough: boolean;
+  code: boolean;
+  link: string | null;
+}
+
+interface DocComment {
+  quote: string | null; // First line of the commented text, whitespace-normalized
+  text: string; // Rendered footnote text (comment and replies)
+}
+
+interface RenderContext {
+  document: docs_v1.Schema$Document;
+  image_file_names: Map<string, string>; // Inline object ID -> image file name
+  heading_anchors: Map<string, string>; // Heading ID -> Markdown anchor
+  footnote_labels: Map<string, string>; // Footnote ID -> label, in order of first reference
+  pending_comments: DocComment[]; // Comments whose text was not found yet
+  placed_comments: DocComment[]; // Comments referenced so far, in order of reference
+  line_break: string; // Soft line break: a hard break, or <br> inside table cells
+}
+
+/**
+ * Markdown path an exported image file belongs to, or null if the path is not a Doc image.
+ */
+export function get_doc_image_markdown_path(local_path: string): string | null {
+  const match = DOC_IMAGE_FILE_REGEX.exec(local_path);
+  return match ? `${match[1]}.md` : null;
+}
+
+function escape_markdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>|~]/g, "\\$&");
+}
+
+// Keeps a paragraph from being read as a heading, list item or rule
+function escape_line_start(text: string): string {
+  return text
+    .replace(/^(#{1,6}|[-+=])(?=\s|$)/, "\\$1")
+    .replace(/^(\d+)([.)])(?=\s|$)/, "$1\\$2")
+    .replace(/^(-{3,}|={3,})\s*$/, "\\$1");
+}
+
+function escape_url(url: string): string {
+  return url.replace(/ /g, "%20").replace(/\(/g, "%28").replace(/\)/g, "%29");
+}
+
+function code_span(text: string): string {
+  return text.includes("`") ? `\`\` ${text} \`\`` : `\`${text}\``;
+}
+
+// Drive returns quoted text HTML-escaped
+function decode_html_entities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function normalize_whitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// Plain text of a paragraph, as used for heading anchors and comment anchoring
+function get_paragraph_text(paragraph: docs_v1.Schema$Paragraph): string {
+  return (paragraph.elements || []).map(element => element.textRun?.content || "").join("");
+}
+
+// GitHub-style heading anchor, numbered when the same heading text appears more than once
+function to_anchor(text: string, used_anchors: Map<string, number>): string {
+  const base = normalize_whitespace(text).toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, "").replace(/\s/g, "-");
+  const count = used_anchors.get(base) || 0;
+  used_anchors.set(base, count + 1);
+  return count === 0 ? base : `${base}-${count}`;
+}
+
+function collect_heading_anchors(content: docs_v1.Schema$StructuralElement[]): Map<string, string> {
+  const anchors = new Map<string, string>();
+  const used_anchors = new Map<string, number>();
+  for (const element of content) {
+    const paragraph = element.paragraph;
+    const heading_id = paragraph?.paragraphStyle?.headingId;
+    if (!paragraph || !heading_id || !HEADING_LEVELS[paragraph.paragraphStyle?.namedStyleType || ""]) continue;
+    anchors.set(heading_id, to_anchor(get_paragraph_text(paragraph), used_anchors));
+  }
+  return anchors;
+}
+
+function get_inline_style(text_style: docs_v1.Schema$TextStyle | undefined, ctx: RenderContext): InlineStyle {
+  const link = text_style?.link;
+  let link_target: string | null = null;
+  if (link?.url) {
+    link_target = escape_url(link.url);
+  } else if (link?.headingId && ctx.heading_anchors.has(link.headingId)) {
+    link_target = `#${ctx.heading_anchors.get(link.headingId)}`;
+  }
+  return {
+    bold: !!text_style?.bold,
+    italic: !!text_style?.italic,
+    strikethrough: !!text_style?.strikethrough,
+    code: MONOSPACE_FONTS.has(text_style?.weightedFontFamily?.fontFamily || ""),
+    link: link_target,
+  };
+}
+
+function same_style(a: InlineStyle, b: InlineStyle): boolean {
+  return a.bold === b.bold && a.italic === b.italic && a.strikethrough === b.strikethrough && a.code === b.code && a.link === b.link;
+}
+
+// Wraps a run of equally styled text in Markdown markers (whitespace stays outside the markers)
+function render_styled_text(raw: string, style: InlineStyle, ctx: RenderContext): string {
+  const [, leading, core_text, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(raw)!;
+  const break_lines = (text: string) => text.replace(/\u000b/g, ctx.line_break);
+  if (!core_text) return break_lines(raw);
+  let text = style.code ? code_span(core_text.replace(/\u000b/g, " ")) : break_lines(escape_markdown(core_text));
+  if (style.strikethrough) text = `~~${text}~~`;
+  if (style.italic) text = `*${text}*`;
+  if (style.bold) text = `**${text}**`;
+  if (style.link) text = `[${text}](${style.link})`;
+  return break_lines(leading) + text + break_lines(trailing);
+}
+
+function render_inline_object(inline_object_id: string, ctx: RenderContext): string {
+  const embedded_object = ctx.document.inlineObjects?.[inline_object_id]?.inlineObjectProperties?.embeddedObject;
+  const file_name = ctx.image_file_names.get(inline_object_id);
+  if (!file_name) return "";
+  const alt_text = normalize_whitespace(embedded_object?.title || embedded_object?.description || "image");
+  return `![${escape_markdown(alt_text)}](${escape_url(encodeURI(file_name))})`;
+}
+
+function render_footnote_reference(footnote_id: string, ctx: RenderContext): string {
+  if (!ctx.footnote_labels.has(footnote_id)) ctx.footnote_labels.set(footnote_id, String(ctx.footnote_labels.size + 1));
+  return `[^${ctx.footnote_labels.get(footnote_id)}]`;
+}
+
+function comment_label(comment: DocComment, ctx: RenderContext): string {
+  return `[^comment-${ctx.placed_comments.indexOf(comment) + 1}]`;
+}
+
+// References the comments on a paragraph: those whose quoted text starts in it
+function render_comment_references(paragraph_text: string, ctx: RenderContext): string {
+  const text = normalize_whitespace(paragraph_text);
+  if (!text) return "";
+  const matches = ctx.pending_comments.filter(comment => comment.quote && text.includes(comment.quote));
+  ctx.pending_comments = ctx.pending_comments.filter(comment => !matches.includes(comment));
+  ctx.placed_comments.push(...matches);
+  return matches.map(comment => comment_label(comment, ctx)).join("");
+}
+
+// Inline Markdown of a paragraph's elements, with equally styled text runs merged
+function render_paragraph_text(paragraph: docs_v1.Schema$Paragraph, ctx: RenderContext): string {
+  const parts: string[] = [];
+  let run: { text: string; style: InlineStyle } | null = null;
+  const flush_run = () => {
+    if (run) parts.push(render_styled_text(run.text, run.style, ctx));
+    run = null;
+  };
+
+  for (const element of paragraph.elements || []) {
+    if (element.textRun?.content) {
+      const text = element.textRun.content.replace(/\n$/, "");
+      const style = get_inline_style(element.textRun.textStyle, ctx);
+      if (run && same_style(run.style, style)) {
+        run.text += text;
+      } else {
+        flush_run();
+        run = { text, style };
+      }
+      continue;
+    }
+    flush_run();
+    if (element.inlineObjectElement?.inlineObjectId) {
+      parts.push(render_inline_object(element.inlineObjectElement.inlineObjectId, ctx));
+    } else if (element.footnoteReference?.footnoteId) {
+      parts.push(render_footnote_reference(element.footnoteReference.footnoteId, ctx));
+    } else if (element.person) {
+      const person = element.person.personProperties;
+      parts.push(escape_markdown(person?.name || person?.email || ""));
+    } else if (element.richLink) {
+      const rich_link = element.richLink.richLinkProperties;
+      if (rich_link?.uri) parts.push(`[${escape_markdown(rich_link.title || rich_link.uri)}](${escape_url(rich_link.uri)})`);
+    }
+  }
+  flush_run();
+  return parts.join("").trim() + render_comment_references(get_paragraph_text(paragraph), ctx);
+}
+
+function is_ordered_list(bullet: docs_v1.Schema$Bullet, ctx: RenderContext): boolean {
+  const nesting_level = ctx.document.lists?.[bullet.listId || ""]?.listProperties?.nestingLevels?.[bullet.nestingLevel || 0];
+  const glyph_type = nesting_level?.glyphType;
+  return !!glyph_type && glyph_type !== "GLYPH_TYPE_UNSPECIFIED" && glyph_type !== "NONE";
+}
+
+function render_table(table: docs_v1.Schema$Table, ctx: RenderContext): string | null {
+  const cell_ctx: RenderContext = { ...ctx, line_break: "<br>" };
+  const rows = (table.tableRows || []).map(row =>
+    (row.tableCells || []).map(cell => {
+      const text = render_content(cell.content || [], cell_ctx).join("<br>").replace(/\n/g, "<br>");
+      // Comments are tracked across the whole document
+      ctx.pending_comments = cell_ctx.pending_comments;
+      return text;
+    })
+  );
+  const column_count = Math.max(0, ...rows.map(row => row.length));
+  if (column_count === 0) return null;
+  const format_row = (cells: string[]) =>
+    `| ${Array.from({ length: column_count }, (_, index) => cells[index] || "").join(" | ")} |`;
+  return [
+    format_row(rows[0]),
+    format_row(Array(column_count).fill("---")),
+    ...rows.slice(1).map(format_row),
+  ].join("\n");
+}
+
+/**
+ * Renders structural elements as Markdown blocks. Consecutive items of a list form one block.
+ */
+function render_content(content: docs_v1.Schema$StructuralElement[], ctx: RenderContext): string[] {
+  const blocks: string[] = [];
+  let list_items: string[] = [];
+  let list_id: string | null | undefined = null;
+  const flush_list = () => {
+    if (list_items.length > 0) blocks.push(list_items.join("\n"));
+    list_items = [];
+  };
+
+  for (const element of content) {
+    if (element.table) {
+      flush_list();
+      const table = render_table(element.table, ctx);
+      if (table) blocks.push(table);
+      continue;
+    }
+    const paragraph = element.paragraph;
+    if (!paragraph) continue; // Section breaks and tables of contents are layout only
+    if (paragraph.elements?.some(paragraph_element => paragraph_element.horizontalRule)) {
+      flush_list();
+      blocks.push("---");
+    }
+    const text = render_paragraph_text(paragraph, ctx);
+    if (!text) continue;
+
+    if (paragraph.bullet) {
+      if (paragraph.bullet.listId !== list_id && !paragraph.bullet.nestingLevel) flush_list();
+      list_id = paragraph.bullet.listId;
+      const indent = "    ".repeat(paragraph.bullet.nestingLevel || 0);
+      list_items.push(`${indent}${is_ordered_list(paragraph.bullet, ctx) ? "1." : "-"} ${text}`);
+      continue;
+    }
+    flush_list();
+    const heading_level = HEADING_LEVELS[paragraph.paragraphStyle?.namedStyleType || ""];
+    blocks.push(heading_level ? `${"#".repeat(heading_level)} ${text}` : escape_line_start(text));
+  }
+  flush_list();
+  return blocks;
+}
+
+function format_comment_line(author: drive_v3.Schema$User | undefined, created_time: string | null | undefined, content: string): string {
+  const date = created_time ? ` (${created_time.slice(0, 10)})` : "";
+  return `**${escape_markdown(author?.displayName || "Unknown")}**${date}: ${escape_markdown(normalize_whitespace(content))}`;
+}
+
+function to_doc_comment(comment: drive_v3.Schema$Comment): DocComment {
+  const quote_line = decode_html_entities(comment.quotedFileContent?.value || "").split("\n").find(line => line.trim());
+  const lines = [
+    format_comment_line(comment.author, comment.createdTime, comment.content || ""),
+    ...(comment.replies || [])
+      .filter(reply => !reply.deleted && reply.content)
+      .map(reply => `↳ ${format_comment_line(reply.author, reply.createdTime, reply.content!)}`),
+  ];
+  return {
+    quote: quote_line ? normalize_whitespace(quote_line) : null,
+    text: lines.join("\\\n    "),
+  };
+}
+
+/**
+ * Converts Google Docs JSON into deterministic Markdown: headings, nested lists (ordered lists
+ * always numbered "1." so inserting an item doesn't renumber the rest), tables, links (heading
+ * links become anchors), inline images and footnotes. Comments become footnotes referenced
+ * from the paragraph where their quoted text starts; the others are listed at the end.
+ *
+ * @param document - The document object JSON (suggestions excluded).
+ * @param comments - Open comments of the document.
+ * @param image_file_names - File names of the saved inline images, by inline object ID.
+ * @returns The Markdown text.
+ */
+export function generate_doc_markdown(
+  document: docs_v1.Schema$Document,
+  comments: drive_v3.Schema$Comment[],
+  image_file_names: Map<string, string>
+): string {
+  const content = document.body?.content || [];
+  const ctx: RenderContext = {
+    document,
+    image_file_names,
+    heading_anchors: collect_heading_anchors(content),
+    footnote_labels: new Map(),
+    pending_comments: [...comments]
+      .sort((a, b) => (a.createdTime || "").localeCompare(b.createdTime || "") || (a.id || "").localeCompare(b.id || ""))
+      .map(to_doc_comment),
+    placed_comments: [],
+    line_break: "\\\n",
+  };
+
+  const blocks = render_content(content, ctx);
+  const definitions: string[] = [];
+  for (const [footnote_id, label] of ctx.footnote_labels) {
+    const footnote_text = render_content(document.footnotes?.[footnote_id]?.content || [], ctx).join(" ");
+    definitions.push(`[^${label}]: ${footnote_text}`);
+  }
+  if (ctx.pending_comments.length > 0) {
+    const unanchored = ctx.pending_comments;
+    ctx.pending_comments = [];
+    ctx.placed_comments.push(...unanchored);
+    blocks.push(`*Comments on the document:* ${unanchored.map(comment => comment_label(comment, ctx)).join(" ")}`);
+  }
+  ctx.placed_comments.forEach((comment, index) => definitions.push(`[^comment-${index + 1}]: ${comment.text}`));
+
+  const markdown = blocks.join("\n\n");
+  return definitions.length > 0 ? `${markdown}\n\n${definitions.join("\n")}\n` : `${markdown}\n`;
+}
+
+async function download_doc_image(auth_client: JWT, content_uri: string): Promise<{ data: Buffer; extension: string }> {
+  const response = await run_in_drive_pool(() => auth_client.request<ArrayBuffer>({ url: content_uri, responseType: "arraybuffer" }));
+  const content_type = String(response.headers["content-type"] || "").split(";")[0].trim();
+  return { data: Buffer.from(response.data), extension: IMAGE_EXTENSIONS[content_type] || "png" };
+}
+
+/**
+ * Exports a Google Doc as Markdown through the Docs API (see generate_doc_markdown).
+ * Inline images are saved next to the Markdown file; images of earlier exports that
+ * are no longer in the document are removed.
+ *
+ * @param auth_client - Authenticated JWT client.
+ * @param output_path - Local path of the Markdown file.
+ */
+export async function export_doc_as_markdown(
+  auth_client: JWT,
+  drive_item: DriveItem,
+  output_path: string
+): Promise<void> {
+  core.info(`Exporting '${drive_item.name}' (ID: ${drive_item.id}) as Markdown to ${output_path}`);
+  const document = await fetch_google_doc_json(auth_client, drive_item.id);
+  if (!document) throw new Error(`Could not fetch the content of Google Doc ${drive_item.id}`);
+  const comments = await fetch_google_doc_comments(auth_client, drive_item.id);
+
+  const output_dir = path.dirname(output_path);
+  const image_base_name = path.basename(output_path).replace(/\.md$/, "");
+  await fs_promises.mkdir(output_dir, { recursive: true });
+
+  // Images are downloaded first: their file extension comes from the content type
+  const image_file_names = new Map<string, string>();
+  await Promise.all(
+    Object.entries(document.inlineObjects || {}).map(async ([object_id, inline_object]) => {
+      const content_uri = inline_object.inlineObjectProperties?.embeddedObject?.imageProperties?.contentUri;
+      if (!content_uri) return;
+      try {
+        const image = await download_doc_image(auth_client, content_uri);
+        const file_name = `${image_base_name}.image-${object_id.replace(/^kix\./, "").replace(/[^a-zA-Z0-9_-]/g, "_")}.${image.extension}`;
+        await fs_promises.writeFile(path.join(output_dir, file_name), image.data);
+        image_file_names.set(object_id, file_name);
+      } catch (error) {
+        core.warning(`   - Failed to download image ${object_id} of '${drive_item.name}': ${(error as Error).message}. It is left out of the Markdown.`);
+      }
+    })
+  );
+
+  await fs_promises.writeFile(output_path, generate_doc_markdown(document, comments, image_file_names));
+
+  const written_images = new Set(image_file_names.values());
+  for (const file_name of await fs_promises.readdir(output_dir)) {
+    if (file_name.startsWith(`${image_base_name}.image-`) && DOC_IMAGE_FILE_REGEX.test(file_name) && !written_images.has(file_name)) {
+      core.info(`   - Removing image no longer in the document: ${file_name}`);
+      await fs_promises.rm(path.join(output_dir, file_name), { force: true });
+    }
+  }
+  core.info(`   -> Exported '${drive_item.name}' as Markdown with ${image_file_names.size} image(s) and ${comments.length} comment(s).`);
+}
@@ -0,0 +1,79 @@
+import * as core from "@actions/core";
+import { google, docs_v1, drive_v3 } from "googleapis";
+import { JWT } from "google-auth-library";
+import { run_in_drive_pool } from "../google-drive/pool.js";
+
+// The Drive scope of the shared client also grants read access to the Docs API.
+
+/**
+ * Fetches the content of a Google Doc using the Docs API.
+ * Suggestions are left out, so the content is the document as it reads without them.
+ *
+ * @param authClient - Authenticated JWT client.
+ * @param document_id - The ID of the Google Doc.
+ * @returns The document object JSON, or null if fetch fails.
+ */
+export async function fetch_google_doc_json(
+  authClient: JWT,
+  document_id: string
+): Promise<docs_v1.Schema$Document | null> {
+  core.info(`   - Fetching Google Docs content for ID: ${document_id}`);
+  const docs = google.docs({ version: "v1", auth: authClient });
+
+  try {
+    // Docs API calls share the Drive pool (same service account, same quota pressure)
+    const response = await run_in_drive_pool(() => docs.documents.get({
+      documentId: document_id,
+      suggestionsViewMode: "PREVIEW_WITHOUT_SUGGESTIONS",
+    }));
+
+    if (response.data) {
+      core.info(`   - Successfully fetched Docs content for ID: ${document_id}`);
+      return response.data;
+    } else {
+      core.warning(`   - Docs API returned no data for document ID: ${document_id}`);
+      return null;
+    }
+  } catch (error: unknown) {
+    const err = error as any; // Cast to access potential properties
+    core.error(`   - Failed to fetch Google Docs content for ID ${document_id}: ${err.message}`);
+    if (err.response?.data) {
+      core.error(`   - Docs API Error Details: ${JSON.stringify(err.response.data)}`);
+    }
+    if (err.code) core.error(`   - Error Code: ${err.code}`);
+    return null;
+  }
+}
+
+/**
+ * Fetches the open (unresolved) comments of a Drive file, with their replies.
+ * Comments are an extra, so failures only log a warning and return no comments.
+ *
+ * @param authClient - Authenticated JWT client.
+ * @param file_id - The ID of the Drive file.
+ */
+export async function fetch_google_doc_comments(
+  authClient: JWT,
+  file_id: string
+): Promise<drive_v3.Schema$Comment[]> {
+  const drive = google.drive({ version: "v3", auth: authClient });
+  const comments: drive_v3.Schema$Comment[] = [];
+  let page_token: string | undefined = undefined;
+
+  try {
+    do {
+      const response: { data: drive_v3.Schema$CommentList } = await run_in_drive_pool(() => drive.comments.list({
+        fileId: file_id,
+        pageSize: 100,
+        pageToken: page_token,
+        fields: "nextPageToken, comments(id, content, createdTime, resolved, deleted, author(displayName), quotedFileContent(value), replies(content, createdTime, deleted, author(displayName)))",
+      }));
+      comments.push(...(response.data.comments || []));
+      page_token = response.data.nextPageToken || undefined;
+    } while (page_token);
+  } catch (error: unknown) {
+    core.warning(`   - Failed to fetch comments for ID ${file_id}: ${(error as Error).message}. Exporting without comments.`);
+    return [];
+  }
+  return comments.filter(comment => !comment.deleted && !comment.resolved);
+}
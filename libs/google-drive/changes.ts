@@ -0,0 +1,302 @@
+import * as core from "@actions/core";
+import * as cache from "@actions/cache";
+import * as fs_promises from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { drive } from "./auth.js";
+import { DRIVE_ITEM_FIELDS, DriveFileWithPath, list_drive_files_recursively, to_drive_item } from "./list.js";
+import { run_in_drive_pool } from "./pool.js";
+import { get_active_shared_drive } from "./shared-drives.js";
+import { DriveChange, DriveChangesListResponse, DriveItem } from "./types.js";
+
+const FOLDER_MIME_TYPE = "application/vnd.google-apps.folder";
+const SNAPSHOT_VERSION = 3; // Bump when DriveItem fields change so old snapshots are walked again
+
+// Listing result, same shape as list_drive_files_recursively
+interface DriveListing {
+  files: DriveFileWithPath[];
+  folders: Map<string, DriveItem>;
+}
+
+interface SnapshotItem {
+  item: DriveItem;
+  parent_id: string;
+}
+
+/**
+ * Every item below a target folder plus the Changes API page token it is current as of.
+ * Persisted between runs with the Actions cache (it is a cache only: losing it means one full walk).
+ */
+interface ListingSnapshot {
+  version: number;
+  folder_id: string;
+  drive_id?: string; // Shared Drive whose changes feed the token belongs to (unset for My Drive)
+  start_page_token: string;
+  items: Record<string, SnapshotItem>; // Keyed by Drive ID
+}
+
+// Listing mode (keep state within this module, like the dry-run flag)
+let incremental_listing_enabled = false;
+
+export function set_incremental_listing(enabled: boolean): void {
+  incremental_listing_enabled = enabled;
+}
+
+// Folders whose snapshot was saved to the Actions cache in this run (cache keys can't be overwritten)
+const snapshots_saved_to_cache = new Set<string>();
+
+function get_snapshot_path(folder_id: string): string {
+  return path.join(process.env.RUNNER_TEMP || os.tmpdir(), "sync-to-drive-listing", `${folder_id}.json`);
+}
+
+function get_cache_key_prefix(folder_id: string): string {
+  return `sync-to-drive-listing-${folder_id}-`;
+}
+
+async function restore_snapshot(folder_id: string): Promise<ListingSnapshot | null> {
+  const snapshot_path = get_snapshot_path(folder_id);
+  // The tree is listed more than once per run (outgoing and incoming sync): a snapshot written
+  // earlier in this run is newer than the cached one, so don't restore over it
+  const has_local_snapshot = await fs_promises.access(snapshot_path).then(() => true, () => false);
+  if (has_local_snapshot) {
+    core.info("Using the Drive listing snapshot from earlier in this run.");
+  } else if (cache.isFeatureAvailable()) {
+    try {
+      const prefix = get_cache_key_prefix(folder_id);
+      const restored_key = await cache.restoreCache([snapshot_path], `${prefix}${process.env.GITHUB_RUN_ID || ""}`, [prefix]);
+      core.info(restored_key ? `Restored Drive listing snapshot from cache '${restored_key}'.` : "No cached Drive listing snapshot found.");
+    } catch (error) {
+      core.warning(`Failed to restore Drive listing snapshot: ${(error as Error).message}`);
+    }
+  }
+  try {
+    const snapshot = JSON.parse(await fs_promises.readFile(snapshot_path, "utf-8")) as ListingSnapshot;
+    if (snapshot.version !== SNAPSHOT_VERSION || snapshot.folder_id !== folder_id || !snapshot.start_page_token ||
+      (snapshot.drive_id || null) !== get_active_shared_drive()) {
+      core.info("Ignoring Drive listing snapshot with an unexpected format.");
+      return null;
+    }
+    return snapshot;
+  } catch {
+    return null;
+  }
+}
+
+async function save_snapshot(snapshot: ListingSnapshot): Promise<void> {
+  const snapshot_path = get_snapshot_path(snapshot.folder_id);
+  await fs_promises.mkdir(path.dirname(snapshot_path), { recursive: true });
+  await fs_promises.writeFile(snapshot_path, JSON.stringify(snapshot));
+  if (!cache.isFeatureAvailable()) {
+    core.info(`Actions cache unavailable. Drive listing snapshot only kept at ${snapshot_path}.`);
+    return;
+  }
+  if (snapshots_saved_to_cache.has(snapshot.folder_id)) {
+    // Later listings in this run only refresh the local file; the next run applies the few changes again
+    core.info(`Drive listing snapshot already cached in this run. Updated ${snapshot_path} only.`);
+    return;
+  }
+  const key = `${get_cache_key_prefix(snapshot.folder_id)}${process.env.GITHUB_RUN_ID || Date.now()}-${process.env.GITHUB_RUN_ATTEMPT || "1"}`;
+  try {
+    await cache.saveCache([snapshot_path], key);
+    snapshots_saved_to_cache.add(snapshot.folder_id);
+    core.info(`Saved Drive listing snapshot (${Object.keys(snapshot.items).length} items) to cache '${key}'.`);
+  } catch (error) {
+    core.warning(`Failed to save Drive listing snapshot to cache '${key}': ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Rebuilds the path-based listing from a snapshot. Items whose parent chain no longer
+ * reaches the root (e.g. children of a removed folder) are dropped from the snapshot.
+ */
+function snapshot_to_listing(snapshot: ListingSnapshot): DriveListing {
+  const children = new Map<string, SnapshotItem[]>();
+  for (const entry of Object.values(snapshot.items)) {
+    const siblings = children.get(entry.parent_id) || [];
+    siblings.push(entry);
+    children.set(entry.parent_id, siblings);
+  }
+
+  const files: DriveFileWithPath[] = [];
+  const folders = new Map<string, DriveItem>();
+  const reachable_ids = new Set<string>();
+  const walk = (parent_id: string, base_path: string) => {
+    for (const { item } of children.get(parent_id) || []) {
+      if (reachable_ids.has(item.id)) continue; // Guard against parent cycles
+      reachable_ids.add(item.id);
+      const relative_path = base_path ? `${base_path}/${item.name}` : item.name;
+      if (item.mimeType === FOLDER_MIME_TYPE) {
+        if (!folders.has(relative_path)) folders.set(relative_path, item);
+        walk(item.id, relative_path);
+      } else {
+        files.push({ path: relative_path, item });
+      }
+    }
+  };
+  walk(snapshot.folder_id, "");
+
+  for (const item_id of Object.keys(snapshot.items)) {
+    if (!reachable_ids.has(item_id)) delete snapshot.items[item_id];
+  }
+  return { files, folders };
+}
+
+/**
+ * Converts a full listing into snapshot items, deriving each item's parent from its path.
+ * @param root_id ID of the folder the listing paths are relative to.
+ */
+function listing_to_snapshot_items(root_id: string, listing: DriveListing): Record<string, SnapshotItem> {
+  const items: Record<string, SnapshotItem> = {};
+  const parent_id_of = (item_path: string) => {
+    const parent_path = path.posix.dirname(item_path);
+    return parent_path === "." ? root_id : listing.folders.get(parent_path)?.id || root_id;
+  };
+  for (const [folder_path, item] of listing.folders) {
+    items[item.id] = { item, parent_id: parent_id_of(folder_path) };
+  }
+  for (const { path: file_path, item } of listing.files) {
+    items[item.id] = { item, parent_id: parent_id_of(file_path) };
+  }
+  return items;
+}
+
+async function fetch_start_page_token(): Promise<string> {
+  const drive_id = get_active_shared_drive() || undefined; // Shared Drives have their own changes feed
+  const res = await run_in_drive_pool(() => drive.changes.getStartPageToken({ driveId: drive_id, supportsAllDrives: true }));
+  if (!res.data.startPageToken) throw new Error("Changes API did not return a start page token.");
+  return res.data.startPageToken;
+}
+
+/**
+ * Applies the changes since the snapshot's page token.
+ * @returns Whether the snapshot (items or token) changed.
+ */
+async function apply_changes(snapshot: ListingSnapshot): Promise<boolean> {
+  // Keep only the latest change per item
+  const latest_changes = new Map<string, DriveChange>();
+  let page_token: string | undefined = snapshot.start_page_token;
+  let new_start_page_token: string | undefined;
+  const drive_id = get_active_shared_drive() || undefined;
+  do {
+    const current_page_token = page_token;
+    const res = await run_in_drive_pool(() => drive.changes.list({
+      pageToken: current_page_token,
+      fields: `nextPageToken, newStartPageToken, changes(fileId, removed, file(${DRIVE_ITEM_FIELDS}, parents, trashed))`,
+      spaces: "drive",
+      includeRemoved: true,
+      includeItemsFromAllDrives: true,
+      supportsAllDrives: true,
+      pageSize: 1000,
+      driveId: drive_id,
+    })) as { data: DriveChangesListResponse };
+    for (const change of res.data.changes || []) {
+      const file_id = change.fileId || change.file?.id;
+      if (file_id) latest_changes.set(file_id, change);
+    }
+    page_token = res.data.nextPageToken;
+    new_start_page_token = res.data.newStartPageToken || new_start_page_token;
+  } while (page_token);
+  if (!new_start_page_token) throw new Error("Changes API did not return a new start page token.");
+  core.info(`Changes API reported ${latest_changes.size} changed item(s) since the last listing.`);
+
+  let changed = new_start_page_token !== snapshot.start_page_token;
+  snapshot.start_page_token = new_start_page_token;
+
+  // Removals first, then insert/update items whose parent is (or becomes) part of the tree.
+  // The changes feed covers everything the account can see, so unrelated items never resolve.
+  const pending = new Map<string, DriveChange>();
+  for (const [file_id, change] of latest_changes) {
+    if (file_id === snapshot.folder_id) continue; // The root folder itself
+    if (change.removed || !change.file || change.file.trashed) {
+      if (snapshot.items[file_id]) {
+        core.debug(`Removed from Drive listing: ${snapshot.items[file_id].item.name} (ID: ${file_id})`);
+        delete snapshot.items[file_id];
+        changed = true;
+      }
+    } else {
+      pending.set(file_id, change);
+    }
+  }
+
+  const entered_folder_ids: string[] = [];
+  let progress = true;
+  while (progress && pending.size > 0) {
+    progress = false;
+    for (const [file_id, change] of pending) {
+      const file = change.file!;
+      const parent_id = file.parents?.[0];
+      const parent_in_tree = parent_id === snapshot.folder_id ||
+        (parent_id !== undefined && snapshot.items[parent_id]?.item.mimeType === FOLDER_MIME_TYPE);
+      if (!parent_id || !parent_in_tree || !file.name) continue;
+      if (file.mimeType === FOLDER_MIME_TYPE && !snapshot.items[file_id]) {
+        entered_folder_ids.push(file_id); // New or moved-in folder: its unchanged children are not in the feed
+      }
+      snapshot.items[file_id] = { item: to_drive_item(file), parent_id };
+      core.debug(`Updated in Drive listing: ${file.name} (ID: ${file_id})`);
+      pending.delete(file_id);
+      changed = true;
+      progress = true;
+    }
+  }
+  // Whatever is left is outside the tree; drop it in case it was moved out
+  for (const file_id of pending.keys()) {
+    if (snapshot.items[file_id]) {
+      core.debug(`Moved out of Drive listing: ${snapshot.items[file_id].item.name} (ID: ${file_id})`);
+      delete snapshot.items[file_id];
+      changed = true;
+    }
+  }
+
+  const sub_listings = await Promise.all(entered_folder_ids.map(entered_folder_id => {
+    core.info(`Listing folder ${entered_folder_id} that entered the tree since the last listing...`);
+    return list_drive_files_recursively(entered_folder_id);
+  }));
+  sub_listings.forEach((sub_listing, index) => {
+    for (const [item_id, entry] of Object.entries(listing_to_snapshot_items(entered_folder_ids[index], sub_listing))) {
+      if (!snapshot.items[item_id]) snapshot.items[item_id] = entry;
+    }
+  });
+  return changed;
+}
+
+/**
+ * Lists a Drive folder tree. With incremental listing enabled, only items changed since the
+ * previous run are fetched through the Changes API; a full walk is done when there is no
+ * usable snapshot or the stored page token is rejected (e.g. expired).
+ * @returns Files (with paths relative to the folder) and folders, like list_drive_files_recursively.
+ */
+export async function list_drive_tree(folder_id: string): Promise<DriveListing> {
+  if (!incremental_listing_enabled) {
+    return list_drive_files_recursively(folder_id);
+  }
+
+  const snapshot = await restore_snapshot(folder_id);
+  if (snapshot) {
+    try {
+      core.info(`Listing Drive folder ${folder_id} incrementally from ${Object.keys(snapshot.items).length} cached item(s)...`);
+      const changed = await apply_changes(snapshot);
+      const listing = snapshot_to_listing(snapshot);
+      if (changed) await save_snapshot(snapshot);
+      return listing;
+    } catch (error) {
+      core.warning(`Incremental Drive listing failed (${(error as Error).message}). Falling back to a full walk.`);
+    }
+  }
+
+  // Take the token *before* walking so changes made during the walk are picked up next run
+  const start_page_token = await fetch_start_page_token().catch((error: Error) => {
+    core.warning(`Could not get a Changes API start page token: ${error.message}. The next run will walk again.`);
+    return null;
+  });
+  const listing = await list_drive_files_recursively(folder_id);
+  if (!start_page_token) return listing;
+  const shared_drive_id = get_active_shared_drive();
+  await save_snapshot({
+    version: SNAPSHOT_VERSION,
+    folder_id,
+    ...(shared_drive_id ? { drive_id: shared_drive_id } : {}),
+    start_page_token,
+    items: listing_to_snapshot_items(folder_id, listing),
+  });
+  return listing;
+}
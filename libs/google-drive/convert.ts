@@ -0,0 +1,58 @@
+import { minimatch } from "minimatch";
+import * as path from "path";
+
+// Native Google Workspace type a local file is converted to on upload
+export type ConversionTarget = "doc" | "sheet" | "slides";
+
+export interface ConversionRule {
+  match: string; // Glob relative to the target's local_path, e.g. "**/*.md"
+  to: ConversionTarget;
+}
+
+export interface Conversion {
+  mime_type: string; // Google Workspace MIME type to create
+  source_mime_type?: string; // MIME type of the local content (Drive detects it when unset)
+}
+
+// appProperties key holding the MD5 of the repo file a converted document was last created
+// or updated from. Converted documents have no md5Checksum, so this tells unchanged sources apart.
+export const SOURCE_HASH_PROPERTY = "sync_source_md5";
+
+const CONVERSION_TARGET_MIME_TYPES: Record<ConversionTarget, string> = {
+  doc: "application/vnd.google-apps.document",
+  sheet: "application/vnd.google-apps.spreadsheet",
+  slides: "application/vnd.google-apps.presentation",
+};
+
+// Local formats Drive can import, by extension
+const SOURCE_MIME_TYPES: { [extension: string]: string } = {
+  ".md": "text/markdown",
+  ".markdown": "text/markdown",
+  ".txt": "text/plain",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".rtf": "application/rtf",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".odt": "application/vnd.oasis.opendocument.text",
+  ".csv": "text/csv",
+  ".tsv": "text/tab-separated-values",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".ods": "application/vnd.oasis.opendocument.spreadsheet",
+  ".pptx": "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".odp": "application/vnd.oasis.opendocument.presentation",
+};
+
+/**
+ * Finds how a local file is uploaded according to the target's `convert` rules.
+ * The first rule whose glob matches the path decides.
+ * @param relative_path Path relative to the target's local_path.
+ * @returns The conversion, or null to upload the file as is.
+ */
+export function get_conversion(relative_path: string, rules: ConversionRule[]): Conversion | null {
+  const rule = rules.find(candidate => minimatch(relative_path, candidate.match, { dot: true }));
+  if (!rule) return null;
+  return {
+    mime_type: CONVERSION_TARGET_MIME_TYPES[rule.to],
+    source_mime_type: SOURCE_MIME_TYPES[path.extname(relative_path).toLowerCase()],
+  };
+}
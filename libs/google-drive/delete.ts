@@ -1,18 +1,19 @@
 import * as core from "@actions/core";
 import { drive } from "./auth.js";
+import { run_in_drive_pool } from "./pool.js";
 
 // Delete Untracked (Moves to Trash)
 export async function delete_untracked(id: string, name: string, is_folder: boolean = false): Promise<boolean> {
   const item_type = is_folder ? "folder" : "file";
   core.info(`Attempting to move ${item_type} to Trash: '${name}' (ID: ${id})`);
   try {
-    await drive.files.update({
+    await run_in_drive_pool(() => drive.files.update({
       fileId: id,
       requestBody: { trashed: true },
       supportsAllDrives: true,
       // Add fields to potentially get confirmation, although not strictly necessary
       // fields: "id, name, trashed"
-    });
+    }));
     core.info(`Moved untracked ${item_type} to Trash: ${name} (ID: ${id})`);
     return true;
   } catch (error: unknown) {
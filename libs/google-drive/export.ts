@@ -0,0 +1,126 @@
+import * as core from "@actions/core";
+import * as fs from "fs";
+import * as fs_promises from "fs/promises";
+import * as path from "path";
+import { drive } from "./auth.js";
+import { MIME_TYPE_TO_EXTENSION, construct_link_file_name } from "./file_types.js";
+import { run_in_drive_pool } from "./pool.js";
+import { DriveItem } from "./types.js";
+
+// Google Workspace types whose content can be exported into the repo (named like their link files)
+export type ExportableType = "doc" | "sheet" | "slides" | "drawing" | "script";
+
+// Export format (file extension) per Workspace type, e.g. { doc: "md", sheet: "xlsx" }
+export type ExportFormats = Partial<Record<ExportableType, string>>;
+
+// Formats Drive can export each type to, by file extension
+const EXPORT_MIME_TYPES: Record<ExportableType, { [format: string]: string }> = {
+  doc: {
+    md: "text/markdown", // Converted from the Docs API instead (see google-docs/doc_to_markdown.ts)
+    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    odt: "application/vnd.oasis.opendocument.text",
+    rtf: "application/rtf",
+    txt: "text/plain",
+    epub: "application/epub+zip",
+    pdf: "application/pdf",
+  },
+  sheet: {
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    ods: "application/x-vnd.oasis.opendocument.spreadsheet",
+    csv: "text/csv", // One file per tab via the Sheets API (see google-sheets/export_csv.ts)
+    tsv: "text/tab-separated-values", // First tab only
+    pdf: "application/pdf",
+  },
+  slides: {
+    pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    odp: "application/vnd.oasis.opendocument.presentation",
+    txt: "text/plain",
+    pdf: "application/pdf",
+  },
+  drawing: {
+    svg: "image/svg+xml",
+    png: "image/png",
+    jpg: "image/jpeg",
+    pdf: "application/pdf",
+  },
+  script: {
+    json: "application/vnd.google-apps.script+json",
+  },
+};
+
+// Matches export files, e.g. "Report--XYZ123.doc.md" (the link file would be "Report--XYZ123.doc.gdrive.json"),
+// the files inside per-tab export folders, e.g. "Budget--XYZ123.sheet.csv/Q1.csv",
+// and the images of Markdown exports, e.g. "Report--XYZ123.doc.image-abc123.png"
+const EXPORT_FILE_REGEX = new RegExp(`--[a-zA-Z0-9_-]+\\.(${Object.keys(EXPORT_MIME_TYPES).join("|")})\\.((${
+  Array.from(new Set(Object.values(EXPORT_MIME_TYPES).flatMap(formats => Object.keys(formats)))).join("|")
+})(/|$)|image-[a-zA-Z0-9_-]+\\.[a-zA-Z0-9]+$)`);
+
+// How an export is produced: Drive's export endpoint, or a converter of our own
+export type Exporter = "drive" | "sheet_tabs" | "doc_markdown";
+
+export interface ExportFormat {
+  format: string; // File extension, e.g. "md"
+  mime_type: string; // Export MIME type requested from Drive
+  exporter: Exporter; // "sheet_tabs" writes a folder with one file per tab
+}
+
+/**
+ * Finds the configured export format of a Drive item.
+ * @returns The format, or null if the item's type is not exported (or not a Workspace type).
+ */
+export function get_export_format(mime_type: string, formats: ExportFormats): ExportFormat | null {
+  const type = MIME_TYPE_TO_EXTENSION[mime_type] as ExportableType | undefined;
+  if (!type || !(type in EXPORT_MIME_TYPES) || !mime_type.startsWith("application/vnd.google-apps.")) return null;
+  const format = formats[type];
+  if (!format) return null;
+  const export_mime_type = EXPORT_MIME_TYPES[type][format];
+  if (!export_mime_type) {
+    core.warning(`Unsupported export format '${format}' for Google ${type} files. Supported: ${Object.keys(EXPORT_MIME_TYPES[type]).join(", ")}.`);
+    return null;
+  }
+  const exporter: Exporter =
+    type === "sheet" && format === "csv" ? "sheet_tabs" : type === "doc" && format === "md" ? "doc_markdown" : "drive";
+  return { format, mime_type: export_mime_type, exporter };
+}
+
+/**
+ * Name of the exported content file (or per-tab folder), next to the link file.
+ * e.g. "Report--XYZ123.doc.gdrive.json" -> "Report--XYZ123.doc.md"
+ */
+export function construct_export_file_name(base_name: string, file_id: string, mime_type: string, format: string): string {
+  return construct_link_file_name(base_name, file_id, mime_type).replace(/\.gdrive\.json$/, `.${format}`);
+}
+
+/**
+ * Export files are generated from Drive: they are never uploaded and always follow the Drive version.
+ */
+export function is_export_file(relative_path: string): boolean {
+  return EXPORT_FILE_REGEX.test(relative_path);
+}
+
+/**
+ * Exports a Google Workspace file into the repo.
+ * @param output_path Local path of the export file.
+ */
+export async function export_drive_file(drive_item: DriveItem, export_format: ExportFormat, output_path: string): Promise<void> {
+  core.info(`Exporting '${drive_item.name}' (ID: ${drive_item.id}) as ${export_format.format} to ${output_path}`);
+  await fs_promises.mkdir(path.dirname(output_path), { recursive: true });
+  try {
+    // The pool slot is held until the stream is fully written, like downloads
+    await run_in_drive_pool(async () => {
+      const response = await drive.files.export(
+        { fileId: drive_item.id, mimeType: export_format.mime_type },
+        { responseType: "stream" }
+      );
+      const dest = fs.createWriteStream(output_path);
+      await new Promise<void>((resolve, reject) => {
+        (response.data as NodeJS.ReadableStream).pipe(dest);
+        dest.on("finish", resolve);
+        dest.on("error", reject);
+      });
+    });
+  } catch (error) {
+    await fs_promises.rm(output_path, { force: true }).catch(() => { });
+    throw error;
+  }
+}
@@ -3,6 +3,9 @@ import * as fs from "fs";
 import * as fs_promises from "fs/promises";
 import * as path from "path";
 import { drive } from "./auth.js";
+import { Conversion, SOURCE_HASH_PROPERTY } from "./convert.js";
+import { run_in_drive_pool } from "./pool.js";
+import { should_upload_resumable, upload_file_resumable } from "./resumable.js";
 import { DriveItem } from "./types.js";
 // Import the specific function and map we need
 import { GOOGLE_DOC_MIME_TYPES, LINK_FILE_MIME_TYPES, MIME_TYPE_TO_EXTENSION, construct_link_file_name } from "./file_types.js"; // <-- Import new function
@@ -50,7 +53,9 @@ export async function handle_download_item(
       id: drive_item.id,
       mimeType: drive_item.mimeType,
       name: drive_item.name,
-      modifiedTime: drive_item.modifiedTime
+      modifiedTime: drive_item.modifiedTime,
+      // MD5 of the repo file a converted document was created from (see convert.ts)
+      ...(drive_item.source_hash ? { sourceMd5: drive_item.source_hash } : {}),
     };
     await fs.promises.mkdir(content_dir, { recursive: true }); // Ensure dir exists
     await fs.promises.writeFile(link_file_path, JSON.stringify(link_data, null, 2));
@@ -75,18 +80,21 @@ export async function handle_download_item(
       await fs.promises.mkdir(content_dir, { recursive: true });
 
       core.debug(`Downloading Drive file content ID ${drive_item.id} to local path ${target_content_local_path}`);
-      const response = await drive.files.get(
-        { fileId: drive_item.id, alt: "media", supportsAllDrives: true, },
-        { responseType: "stream" }
-      );
-      const dest = fs.createWriteStream(target_content_local_path);
-      await new Promise<void>((resolve, reject) => {
-        if (!response.data || typeof (response.data as any).pipe !== 'function') {
-          return reject(new Error(`Drive API did not return a readable stream for file ID ${drive_item.id}.`));
-        }
-        (response.data as NodeJS.ReadableStream).pipe(dest);
-        dest.on("finish", resolve);
-        dest.on("error", (err) => reject(err));
+      // The pool slot is held until the stream is fully written, not just until the response starts
+      await run_in_drive_pool(async () => {
+        const response = await drive.files.get(
+          { fileId: drive_item.id, alt: "media", supportsAllDrives: true, },
+          { responseType: "stream" }
+        );
+        const dest = fs.createWriteStream(target_content_local_path);
+        await new Promise<void>((resolve, reject) => {
+          if (!response.data || typeof (response.data as any).pipe !== 'function') {
+            return reject(new Error(`Drive API did not return a readable stream for file ID ${drive_item.id}.`));
+          }
+          (response.data as NodeJS.ReadableStream).pipe(dest);
+          dest.on("finish", resolve);
+          dest.on("error", (err) => reject(err));
+        });
       });
       core.debug(`Successfully downloaded content for file ${drive_item.id} to ${target_content_local_path}`);
       contentFilePath = target_content_local_path;
@@ -108,7 +116,9 @@ export async function handle_download_item(
  * @param local_file_path Absolute path to the local file.
  * @param target_folder_id Drive Folder ID where the file should be uploaded.
  * @param existing_drive_file Optional info for updating an existing file.
- * @returns Object with the Drive file ID and success status.
+ * @param conversion Optional Google Workspace type to convert to (see convert.ts); the source MD5 is
+ *   recorded on the document so unchanged sources are not converted again.
+ * @returns Object with the Drive file ID, success status and the resulting md5Checksum/modifiedTime.
  */
 // Pre-compile regex for checking link files with the new pattern
 const known_extensions = Object.values(MIME_TYPE_TO_EXTENSION).join('|');
@@ -119,8 +129,9 @@ const link_file_upload_regex = new RegExp(`--[a-zA-Z0-9_-]+\\.(${known_extension
 export async function upload_file(
   local_file_path: string,
   target_folder_id: string,
-  existing_drive_file?: { id: string; name: string }
-): Promise<{ id: string; success: boolean }> {
+  existing_drive_file?: { id: string; name: string },
+  conversion?: Conversion & { source_md5: string }
+): Promise<{ id: string; success: boolean; md5?: string; modified_time?: string }> {
   const local_file_name = path.basename(local_file_path);
 
   // Skip uploading the link files themselves using the new pattern
@@ -130,46 +141,70 @@ export async function upload_file(
     return { id: existing_drive_file?.id || '', success: true };
   }
 
-  const media = { body: fs.createReadStream(local_file_path) };
+  // Opened only once a pool slot is free, so queued uploads don't hold file descriptors
+  const create_media = () => ({
+    ...(conversion?.source_mime_type ? { mimeType: conversion.source_mime_type } : {}),
+    body: fs.createReadStream(local_file_path),
+  });
+  const conversion_metadata = conversion ? { appProperties: { [SOURCE_HASH_PROPERTY]: conversion.source_md5 } } : {};
   let fileId = existing_drive_file?.id;
   let operation: 'update' | 'create' = existing_drive_file?.id ? 'update' : 'create';
+  let md5: string | undefined;
+  let modified_time: string | undefined;
 
   try {
+    // Large files use a resumable session, which retries and resumes chunks itself
+    const { size } = await fs_promises.stat(local_file_path);
+    const resumable = should_upload_resumable(size);
     if (operation === 'update' && fileId) {
-      const requestBody: { name?: string } = {};
+      const requestBody: { name?: string; appProperties?: { [key: string]: string } } = { ...conversion_metadata };
       if (existing_drive_file!.name !== local_file_name) {
         requestBody.name = local_file_name;
         core.info(`Updating file name for '${existing_drive_file!.name}' to '${local_file_name}' (ID: ${fileId})`);
       } else {
-        core.info(`Updating existing file content '${local_file_name}' (ID: ${fileId}) in folder ${target_folder_id}`);
+        core.info(`Updating existing file content '${local_file_name}' (ID: ${fileId}) in folder ${target_folder_id}${conversion ? " (converted)" : ""}`);
       }
       core.debug(`Updating existing file. File ID: ${fileId}, Target Folder ID: ${target_folder_id}, New Name (if changed): ${requestBody.name}`);
-      core.debug(`Update Request Params: fileId=${fileId}, media=PRESENT, requestBody=${JSON.stringify(requestBody)}, fields="id, name, md5Checksum", supportsAllDrives=true`);
-      const resUpdate = await drive.files.update({
-        fileId: fileId,
-        media: media,
-        // Only include requestBody if it has keys (i.e., name change)
-        requestBody: Object.keys(requestBody).length > 0 ? requestBody : undefined,
-        fields: "id, name, md5Checksum", // Always request fields
-        supportsAllDrives: true,
-      });
+      core.debug(`Update Request Params: fileId=${fileId}, media=PRESENT, requestBody=${JSON.stringify(requestBody)}, fields="id, name, md5Checksum, modifiedTime", supportsAllDrives=true`);
+      const update_file_id = fileId;
+      const resUpdate = resumable
+        ? { data: await run_in_drive_pool(() => upload_file_resumable(local_file_path, size, requestBody, "id, name, md5Checksum, modifiedTime", update_file_id), { retry: false }) }
+        : await run_in_drive_pool(() => drive.files.update({
+          fileId: update_file_id,
+          media: create_media(),
+          // Only include requestBody if it has keys (i.e., name change or conversion metadata)
+          requestBody: Object.keys(requestBody).length > 0 ? requestBody : undefined,
+          fields: "id, name, md5Checksum, modifiedTime", // Always request fields
+          supportsAllDrives: true,
+        }));
       fileId = resUpdate.data.id!;
+      md5 = resUpdate.data.md5Checksum || undefined;
+      modified_time = resUpdate.data.modifiedTime || undefined;
       core.info(`Updated file '${resUpdate.data.name}' (ID: ${fileId}). New hash: ${resUpdate.data.md5Checksum || 'N/A'}`);
     } else { // create
-      core.info(`Creating new file '${local_file_name}' in folder ${target_folder_id}`);
-      const createRequestBody = { name: local_file_name, parents: [target_folder_id] };
-      core.debug(`Create Request Params: media=PRESENT, requestBody=${JSON.stringify(createRequestBody)}, fields="id, name, md5Checksum", supportsAllDrives=true`);
-      const resCreate = await drive.files.create({
-        requestBody: createRequestBody,
-        media: media,
-        fields: "id, name, md5Checksum",
-        supportsAllDrives: true,
-      });
+      core.info(`Creating new file '${local_file_name}' in folder ${target_folder_id}${conversion ? ` (converted to ${conversion.mime_type})` : ""}`);
+      const createRequestBody = {
+        name: local_file_name,
+        parents: [target_folder_id],
+        ...(conversion ? { mimeType: conversion.mime_type } : {}),
+        ...conversion_metadata,
+      };
+      core.debug(`Create Request Params: media=PRESENT, requestBody=${JSON.stringify(createRequestBody)}, fields="id, name, md5Checksum, modifiedTime", supportsAllDrives=true`);
+      const resCreate = resumable
+        ? { data: await run_in_drive_pool(() => upload_file_resumable(local_file_path, size, createRequestBody, "id, name, md5Checksum, modifiedTime"), { retry: false }) }
+        : await run_in_drive_pool(() => drive.files.create({
+          requestBody: createRequestBody,
+          media: create_media(),
+          fields: "id, name, md5Checksum, modifiedTime",
+          supportsAllDrives: true,
+        }));
       if (!resCreate.data.id) { throw new Error(`File creation API call did not return an ID for '${local_file_name}'.`); }
       fileId = resCreate.data.id;
+      md5 = resCreate.data.md5Checksum || undefined;
+      modified_time = resCreate.data.modifiedTime || undefined;
       core.info(`Uploaded file '${resCreate.data.name}' (ID: ${fileId}). Hash: ${resCreate.data.md5Checksum || 'N/A'}`);
     }
-    return { id: fileId!, success: true };
+    return { id: fileId!, success: true, md5, modified_time };
   } catch (error: unknown) {
     const err = error as any;
     core.warning(`Failed to ${operation} file '${local_file_name}' in folder ${target_folder_id}: ${err.message}`);
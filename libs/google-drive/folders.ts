@@ -1,7 +1,11 @@
 import * as core from "@actions/core";
 import { drive } from "./auth.js";
 import { DriveItem, DriveFilesListResponse } from "./types.js";
+import { move_drive_item } from "./move.js";
+import { run_in_drive_pool } from "./pool.js";
+import { get_list_scope } from "./shared-drives.js";
 import { FileInfo } from "../local-files/types.js";
+import { is_dry_run, record_planned_operation } from "../sync-logic/plan.js";
 import * as path from "path";
 
 // Ensure Folder
@@ -10,14 +14,15 @@ async function ensure_folder(parent_id: string, folder_name: string): Promise<st
   try {
     const query = `'${parent_id}' in parents and mimeType = 'application/vnd.google-apps.folder' and name = '${folder_name.replace(/'/g, "\\'")}' and trashed = false`;
     core.debug(`Querying for existing folder: ${query}`);
-    const res = await drive.files.list({
+    const res = await run_in_drive_pool(() => drive.files.list({
       q: query,
       fields: "files(id, name)",
       spaces: "drive",
       pageSize: 1,
+      ...get_list_scope(),
       includeItemsFromAllDrives: true,
       supportsAllDrives: true,
-    }) as { data: DriveFilesListResponse };
+    })) as { data: DriveFilesListResponse };
     core.debug(`API response for existing folder query '${folder_name}' under '${parent_id}': ${JSON.stringify(res.data)}`);
     const existing_folder = res.data.files?.[0];
 
@@ -27,7 +32,7 @@ async function ensure_folder(parent_id: string, folder_name: string): Promise<st
     }
 
     core.info(`Folder '${folder_name}' not found, creating it...`);
-    const folder = await drive.files.create({
+    const folder = await run_in_drive_pool(() => drive.files.create({
       requestBody: {
         name: folder_name,
         mimeType: "application/vnd.google-apps.folder",
@@ -35,7 +40,7 @@ async function ensure_folder(parent_id: string, folder_name: string): Promise<st
       },
       fields: "id",
       supportsAllDrives: true,
-    });
+    }));
     if (!folder.data.id) {
       throw new Error(`Folder creation API call did not return an ID for '${folder_name}'.`);
     }
@@ -51,11 +56,81 @@ async function ensure_folder(parent_id: string, folder_name: string): Promise<st
   }
 }
 
+// Share of child files (by Drive ID) a new local folder and an unused Drive folder must have
+// in common (of all their child files) to be treated as the same folder, renamed or moved
+const FOLDER_MOVE_MIN_SHARED_RATIO = 0.5;
+
+export interface FolderMoveSources {
+  drive_files: Map<string, DriveItem>; // Drive files by path, updated when their folder is moved
+  local_drive_ids: Map<string, string>; // Local file path -> ID of the Drive file it is synced with
+}
+
+// Re-keys the entries of a moved folder (and everything below it) to the new path
+function move_map_paths<T>(map: Map<string, T>, from_path: string, to_path: string): void {
+  for (const [item_path, value] of Array.from(map)) {
+    if (item_path === from_path || item_path.startsWith(from_path + "/")) {
+      map.delete(item_path);
+      map.set(to_path + item_path.slice(from_path.length), value);
+    }
+  }
+}
+
+/**
+ * Finds the Drive folder a new local folder was renamed or moved from: a Drive folder no
+ * longer needed locally whose child files (by Drive ID) are mostly the ones the local folder
+ * directly contains. Ties go to the folder with the same name; otherwise nothing is matched.
+ * Folders without files of their own are not matched (their subfolders still can be).
+ * @returns The path of the matching Drive folder, or null.
+ */
+function find_moved_folder(
+  folder_path: string,
+  required_dir_paths: Set<string>,
+  existing_folders: Map<string, DriveItem>,
+  claimed_folder_ids: Set<string>,
+  sources: FolderMoveSources
+): string | null {
+  const local_ids = new Set<string>();
+  for (const [file_path, drive_id] of sources.local_drive_ids) {
+    if (path.posix.dirname(file_path) === folder_path) local_ids.add(drive_id);
+  }
+  if (local_ids.size === 0) return null;
+
+  let best_paths: string[] = [];
+  let best_ratio = FOLDER_MOVE_MIN_SHARED_RATIO;
+  for (const [candidate_path, folder] of existing_folders) {
+    if (candidate_path === "" || required_dir_paths.has(candidate_path) || claimed_folder_ids.has(folder.id)) continue;
+    const drive_ids = new Set<string>();
+    for (const [file_path, item] of sources.drive_files) {
+      if (path.posix.dirname(file_path) === candidate_path) drive_ids.add(item.id);
+    }
+    const shared = Array.from(local_ids).filter(id => drive_ids.has(id)).length;
+    if (shared === 0) continue;
+    const ratio = shared / (local_ids.size + drive_ids.size - shared);
+    if (ratio > best_ratio) {
+      best_ratio = ratio;
+      best_paths = [candidate_path];
+    } else if (ratio === best_ratio) {
+      best_paths.push(candidate_path);
+    }
+  }
+  if (best_paths.length > 1) {
+    best_paths = best_paths.filter(candidate_path => path.posix.basename(candidate_path) === path.posix.basename(folder_path));
+  }
+  if (best_paths.length !== 1) return null;
+  return best_paths[0];
+}
+
 // Build Folder Structure
+/**
+ * @param move_sources When given, a missing folder that matches an unused Drive folder by its
+ *   child files is moved/renamed there instead of created. existing_folders and drive_files
+ *   are updated to the new paths.
+ */
 export async function build_folder_structure(
   root_folder_id: string,
   local_files: FileInfo[],
-  existing_folders: Map<string, DriveItem> // Pass existing folders for efficiency
+  existing_folders: Map<string, DriveItem>, // Pass existing folders for efficiency
+  move_sources?: FolderMoveSources
 ): Promise<Map<string, string>> { // Returns map of relative_path -> folder_id
   const folder_map = new Map<string, string>();
   folder_map.set("", root_folder_id); // Root path maps to the root folder ID
@@ -80,10 +155,20 @@ export async function build_folder_structure(
   const sorted_paths = Array.from(required_dir_paths).sort();
   core.info(`Required folder paths based on local files: ${sorted_paths.join(', ') || 'None'}`);
 
+  // Folders of the same depth are ensured concurrently (bounded by the Drive pool);
+  // each depth waits for the previous one so parent IDs are known.
+  const paths_by_depth: string[][] = [];
   for (const folder_path of sorted_paths) {
+    const depth = folder_path.split('/').length - 1;
+    (paths_by_depth[depth] ||= []).push(folder_path);
+  }
+
+  const claimed_folder_ids = new Set<string>(); // Drive folders already moved to a new path
+
+  const ensure_folder_path = async (folder_path: string) => {
     if (folder_map.has(folder_path)) {
       core.debug(`Folder path '${folder_path}' already processed.`);
-      continue;
+      return;
     }
     const parts = folder_path.split('/');
     const folder_name = parts[parts.length - 1];
@@ -93,17 +178,56 @@ export async function build_folder_structure(
     if (!parent_folder_id) {
       // This should theoretically not happen if paths are sorted correctly and root is set
       core.error(`Logic error: Cannot find parent folder ID for path '${folder_path}' (parent path '${parent_path}' missing from map). Skipping.`);
-      continue;
+      return;
     }
 
     const existing_drive_folder = existing_folders.get(folder_path);
     let current_folder_id: string;
 
+    if (!existing_drive_folder?.id && move_sources) {
+      // Claimed before the first await, so folders of the same depth cannot match it too
+      const moved_from = find_moved_folder(folder_path, required_dir_paths, existing_folders, claimed_folder_ids, move_sources);
+      const moved_folder = moved_from ? existing_folders.get(moved_from) : undefined;
+      const old_parent_path = moved_from ? moved_from.split('/').slice(0, -1).join('/') : "";
+      const old_parent_id = old_parent_path ? existing_folders.get(old_parent_path)?.id : root_folder_id;
+      if (moved_from && moved_folder && old_parent_id) {
+        claimed_folder_ids.add(moved_folder.id);
+        let moved = true;
+        if (is_dry_run()) {
+          record_planned_operation({
+            type: "move",
+            folder_id: root_folder_id,
+            path: folder_path,
+            drive_id: moved_folder.id,
+            detail: `folder from '${moved_from}'`,
+          });
+        } else {
+          core.info(`Folder '${moved_from}' was renamed or moved to '${folder_path}'. Moving Drive folder ${moved_folder.id}.`);
+          moved = (await move_drive_item(moved_folder.id, folder_name, parent_folder_id, old_parent_id)) !== null;
+        }
+        if (moved) {
+          move_map_paths(existing_folders, moved_from, folder_path);
+          move_map_paths(move_sources.drive_files, moved_from, folder_path);
+          folder_map.set(folder_path, moved_folder.id);
+          return;
+        }
+      }
+    }
+
     if (existing_drive_folder?.id) {
       core.info(`Using existing Drive folder '${folder_path}' with ID: ${existing_drive_folder.id}`);
       current_folder_id = existing_drive_folder.id;
       // Ensure the map is updated even if we reuse an existing folder
       folder_map.set(folder_path, current_folder_id);
+    } else if (is_dry_run()) {
+      record_planned_operation({
+        type: "create_folder",
+        folder_id: root_folder_id,
+        path: folder_path,
+        detail: `under parent ${parent_folder_id}`,
+      });
+      // Placeholder ID so children can still be planned under this folder
+      folder_map.set(folder_path, `dry-run:${folder_path}`);
     } else {
       core.info(`Creating missing folder '${folder_name}' under parent ID ${parent_folder_id} (for path '${folder_path}')`);
       try {
@@ -114,9 +238,12 @@ export async function build_folder_structure(
         core.error(`Failed to create or find folder structure at '${folder_path}'. Stopping structure build for this branch.`);
         // Don't re-throw here, allow sync to continue with other top-level folders if possible
         // But the map won't contain this path or its children.
-        continue;
       }
     }
+  };
+
+  for (const depth_paths of paths_by_depth) {
+    if (depth_paths) await Promise.all(depth_paths.map(ensure_folder_path));
   }
   core.info(`Built/Verified folder structure. Path-to-ID map size: ${folder_map.size}`);
   return folder_map;
@@ -1,5 +1,8 @@
 import * as core from "@actions/core";
 import { drive, credentials_json } from "./auth.js";
+import { SOURCE_HASH_PROPERTY } from "./convert.js";
+import { run_in_drive_pool } from "./pool.js";
+import { get_list_scope } from "./shared-drives.js";
 import { DriveItem, DriveFile, DriveFilesListResponse, DrivePermission, DrivePermissionsListResponse } from "./types.js";
 import * as path from "path";
 
@@ -9,6 +12,47 @@ export interface DriveFileWithPath {
   item: DriveItem;
 }
 
+// Field mask shared by every listing of Drive items (files.list and changes.list).
+// Owner and capability info comes with the listing, so no per-item permissions.list is needed.
+export const DRIVE_ITEM_FIELDS =
+  "id, name, mimeType, md5Checksum, modifiedTime, owners(emailAddress), capabilities(canEdit, canTrash, canShare), permissionIds, webViewLink, appProperties";
+
+// Lazily load (and cache on the item) the full permissions of an item.
+// Only needed for items that get ownership handling and have no owner info from the listing.
+export async function get_item_permissions(item: DriveItem): Promise<DrivePermission[]> {
+  if (item.permissions) return item.permissions;
+  try {
+    core.debug(`Listing permissions for item ${item.id} ('${item.name}') with supportsAllDrives: true`);
+    const perm_res = await run_in_drive_pool(() => drive.permissions.list({
+      fileId: item.id,
+      fields: "permissions(id, role, emailAddress, pendingOwner)",
+      supportsAllDrives: true,
+    })) as { data: DrivePermissionsListResponse };
+    item.permissions = perm_res.data.permissions || [];
+  } catch (permError) {
+    core.warning(`Could not list permissions for item ${item.id} ('${item.name}'): ${(permError as Error).message}`);
+    return [];
+  }
+  return item.permissions;
+}
+
+// Convert a listed Drive file into a DriveItem
+export function to_drive_item(item: DriveFile): DriveItem {
+  return {
+    id: item.id!,
+    name: item.name!,
+    mimeType: item.mimeType || "unknown",
+    modifiedTime: item.modifiedTime!,
+    hash: item.md5Checksum,
+    source_hash: item.appProperties?.[SOURCE_HASH_PROPERTY],
+    owned: item.owners?.some(owner => owner.emailAddress === credentials_json.client_email) || false,
+    ownerEmail: item.owners?.[0]?.emailAddress,
+    capabilities: item.capabilities,
+    permissionIds: item.permissionIds,
+    webViewLink: item.webViewLink,
+  };
+}
+
 // List Drive Files Recursively
 export async function list_drive_files_recursively(
   folder_id: string,
@@ -26,15 +70,17 @@ export async function list_drive_files_recursively(
 
   try {
     do {
-      const res = await drive.files.list({
+      const page_token = next_page_token;
+      const res = await run_in_drive_pool(() => drive.files.list({
         q: `'${folder_id}' in parents and trashed = false`,
-        fields: "nextPageToken, files(id, name, mimeType, md5Checksum, modifiedTime, owners(emailAddress), webViewLink)", // Keep webViewLink
+        fields: `nextPageToken, files(${DRIVE_ITEM_FIELDS})`, // Keep webViewLink
         spaces: "drive",
+        ...get_list_scope(), // Scoped to the Shared Drive when the target is on one
         includeItemsFromAllDrives: true,
         supportsAllDrives: true,
-        pageToken: next_page_token,
+        pageToken: page_token,
         pageSize: 1000,
-      }) as { data: DriveFilesListResponse };
+      })) as { data: DriveFilesListResponse };
 
       all_items = all_items.concat(res.data.files || []);
       next_page_token = res.data.nextPageToken;
@@ -46,8 +92,9 @@ export async function list_drive_files_recursively(
   }
 
   core.info(`Processing ${all_items.length} items found in folder ID: ${folder_id}`);
-  const service_account_email = credentials_json.client_email;
 
+  // Subfolders are listed concurrently (bounded by the Drive pool); results are merged in listing order
+  const subfolder_listings: Promise<{ files: DriveFileWithPath[]; folders: Map<string, DriveItem> } | null>[] = [];
   for (const item of all_items) {
     if (!item.name || !item.id) {
       core.warning(`Skipping item with missing name or ID in folder ${folder_id}. Data: ${JSON.stringify(item)}`);
@@ -55,31 +102,7 @@ export async function list_drive_files_recursively(
     }
     // Calculate the relative path based on Drive structure
     const relative_path = base_path ? path.join(base_path, item.name).replace(/\\/g, '/') : item.name.replace(/\\/g, '/');
-    const owned = item.owners?.some(owner => owner.emailAddress === service_account_email) || false;
-
-    let permissions: DrivePermission[] = [];
-    try {
-      core.debug(`Listing permissions for item ${item.id} ('${item.name}') with supportsAllDrives: true`);
-      const perm_res = await drive.permissions.list({
-        fileId: item.id,
-        fields: "permissions(id, role, emailAddress, pendingOwner)",
-        supportsAllDrives: true,
-      }) as { data: DrivePermissionsListResponse };
-      permissions = perm_res.data.permissions || [];
-    } catch (permError) {
-      core.warning(`Could not list permissions for item ${item.id} ('${item.name}'): ${(permError as Error).message}`);
-    }
-
-    const drive_item_data: DriveItem = {
-      id: item.id,
-      name: item.name,
-      mimeType: item.mimeType || "unknown",
-      modifiedTime: item.modifiedTime!,
-      hash: item.md5Checksum,
-      owned,
-      permissions,
-      webViewLink: item.webViewLink,
-    };
+    const drive_item_data = to_drive_item(item);
 
     if (item.mimeType === "application/vnd.google-apps.folder") {
       core.debug(`Found folder: '${relative_path}' (ID: ${item.id})`);
@@ -89,22 +112,27 @@ export async function list_drive_files_recursively(
       } else {
         core.debug(`Folder path '${relative_path}' already processed, skipping recursive call duplication.`);
       }
-      try {
-        const subfolder_data = await list_drive_files_recursively(item.id, relative_path);
-        // Merge results: Append files, merge folders
-        all_files_with_paths = all_files_with_paths.concat(subfolder_data.files); // <-- Append to array
-        subfolder_data.folders.forEach((value, key) => {
-          if (!folder_map.has(key)) { // Prevent overwriting parent folder entries if names clash across levels
-            folder_map.set(key, value)
-          }
-        });
-      } catch (recursiveError) {
-        core.error(`Error processing subfolder ${item.id} ('${item.name}'): ${(recursiveError as Error).message}. Skipping subtree.`);
-      }
+      subfolder_listings.push(
+        list_drive_files_recursively(item.id, relative_path).catch((recursiveError) => {
+          core.error(`Error processing subfolder ${item.id} ('${item.name}'): ${(recursiveError as Error).message}. Skipping subtree.`);
+          return null;
+        })
+      );
     } else {
       // It's a file, add it to the file array
       all_files_with_paths.push({ path: relative_path, item: drive_item_data }); // <-- Add object to array
     }
   }
+
+  for (const subfolder_data of await Promise.all(subfolder_listings)) {
+    if (!subfolder_data) continue;
+    // Merge results: Append files, merge folders
+    all_files_with_paths = all_files_with_paths.concat(subfolder_data.files); // <-- Append to array
+    subfolder_data.folders.forEach((value, key) => {
+      if (!folder_map.has(key)) { // Prevent overwriting parent folder entries if names clash across levels
+        folder_map.set(key, value)
+      }
+    });
+  }
   return { files: all_files_with_paths, folders: folder_map }; // <-- Return array
 }
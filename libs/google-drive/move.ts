@@ -0,0 +1,35 @@
+import * as core from "@actions/core";
+import { drive } from "./auth.js";
+import { run_in_drive_pool } from "./pool.js";
+
+/**
+ * Moves and/or renames a Drive item in place, keeping its ID (and with it comments,
+ * revision history, sharing and links).
+ * @param new_parent_id Folder to move the item into (same as old_parent_id for a plain rename).
+ * @param old_parent_id Folder the item is currently in.
+ * @returns The item's new modifiedTime, or null if the move failed.
+ */
+export async function move_drive_item(
+  item_id: string,
+  new_name: string,
+  new_parent_id: string,
+  old_parent_id: string
+): Promise<{ modified_time?: string } | null> {
+  const reparent = new_parent_id !== old_parent_id;
+  try {
+    const res = await run_in_drive_pool(() => drive.files.update({
+      fileId: item_id,
+      requestBody: { name: new_name },
+      ...(reparent ? { addParents: new_parent_id, removeParents: old_parent_id } : {}),
+      fields: "id, name, modifiedTime",
+      supportsAllDrives: true,
+    }));
+    core.info(`${reparent ? "Moved" : "Renamed"} Drive item ${item_id} to '${new_name}'${reparent ? ` in folder ${new_parent_id}` : ""}.`);
+    return { modified_time: res.data.modifiedTime || undefined };
+  } catch (error: unknown) {
+    const err = error as any;
+    core.warning(`Failed to move Drive item ${item_id} to '${new_name}' in folder ${new_parent_id}: ${err.message}`);
+    if (err.response?.data) core.warning(`API Error Details: ${JSON.stringify(err.response.data)}`);
+    return null;
+  }
+}
@@ -1,9 +1,24 @@
 import * as core from "@actions/core";
 import { drive, credentials_json } from "./auth.js";
+import { run_in_drive_pool } from "./pool.js";
 import { DrivePermission, DrivePermissionsListResponse, DriveFile } from "./types.js";
 
 // Track ownership transfer requests (keep state within this module)
 const ownership_transfer_requested_ids = new Set<string>();
+// Permission ID of the service account (same on every item), looked up once per run
+let service_account_permission_id: Promise<string | null> | null = null;
+
+function get_service_account_permission_id(): Promise<string | null> {
+  if (!service_account_permission_id) {
+    service_account_permission_id = run_in_drive_pool(() => drive.about.get({ fields: "user(permissionId)" }))
+      .then(res => res.data.user?.permissionId || null)
+      .catch((error: Error) => {
+        core.debug(`Could not look up the service account permission ID: ${error.message}`);
+        return null;
+      });
+  }
+  return service_account_permission_id;
+}
 
 export function has_pending_transfer_request(file_id: string): boolean {
   return ownership_transfer_requested_ids.has(file_id);
@@ -18,11 +33,13 @@ export async function accept_ownership_transfers(file_id: string) {
     // --- 1. List permissions for the current item ---
     core.debug(`Checking permissions for item ${file_id} to accept ownership.`);
     do {
-      const res = await drive.permissions.list({
+      const page_token = next_page_token;
+      const res = await run_in_drive_pool(() => drive.permissions.list({
         fileId: file_id,
         fields: "nextPageToken, permissions(id, role, emailAddress, pendingOwner)",
-        pageToken: next_page_token,
-      }) as { data: DrivePermissionsListResponse };
+        pageToken: page_token,
+        supportsAllDrives: true,
+      })) as { data: DrivePermissionsListResponse };
 
       permissions = permissions.concat(res.data.permissions || []);
       next_page_token = res.data.nextPageToken;
@@ -38,14 +55,15 @@ export async function accept_ownership_transfers(file_id: string) {
     for (const perm of pending_permissions) {
       core.info(`Accepting ownership transfer for item ${file_id}, permission ID: ${perm.id}`);
       try {
-        const updated_permission = await drive.permissions.update({
+        const updated_permission = await run_in_drive_pool(() => drive.permissions.update({
           fileId: file_id,
           permissionId: perm.id,
           // Transfer ownership needs an empty request body when accepting
           requestBody: { role: 'owner' },
           transferOwnership: true, // The key parameter
           fields: "id, role, pendingOwner", // Request fields for confirmation
-        });
+          supportsAllDrives: true,
+        }));
         core.info(`Ownership acceptance call returned for item ${file_id}. New Role: ${updated_permission.data.role}, Pending: ${updated_permission.data.pendingOwner}`);
         if (updated_permission.data.role === 'owner' && !updated_permission.data.pendingOwner) {
           core.info(`Ownership confirmed accepted for item ${file_id}`);
@@ -61,25 +79,26 @@ export async function accept_ownership_transfers(file_id: string) {
 
     // --- 4. Check children recursively ONLY if the current item is a folder ---
     core.debug(`Checking if item ${file_id} is a folder for recursive ownership check...`)
-    const file_meta = await drive.files.get({ fileId: file_id, fields: 'id, name, mimeType', supportsAllDrives: true});
+    const file_meta = await run_in_drive_pool(() => drive.files.get({ fileId: file_id, fields: 'id, name, mimeType', supportsAllDrives: true}));
     if (file_meta.data.mimeType === 'application/vnd.google-apps.folder') {
       core.debug(`Item '${file_meta.data.name}' (${file_id}) is a folder. Checking its children.`);
       let children_page_token: string | undefined;
       do {
-        const children_res = await drive.files.list({
+        const page_token = children_page_token;
+        const children_res = await run_in_drive_pool(() => drive.files.list({
           q: `'${file_id}' in parents and trashed = false`,
           fields: "nextPageToken, files(id, name, mimeType)", // Only need ID and type
-          pageToken: children_page_token,
+          pageToken: page_token,
           pageSize: 500, // Process children in batches
           includeItemsFromAllDrives: true,
           supportsAllDrives: true,
-        });
-        for (const child of children_res.data.files || []) {
-          if (child.id) {
-            core.debug(`Recursively checking ownership for child '${child.name}' (${child.id})`);
-            await accept_ownership_transfers(child.id); // Recursive call
-          }
-        }
+        }));
+        // Children are checked concurrently; their API calls are bounded by the Drive pool
+        await Promise.all((children_res.data.files || []).map(child => {
+          if (!child.id) return Promise.resolve();
+          core.debug(`Recursively checking ownership for child '${child.name}' (${child.id})`);
+          return accept_ownership_transfers(child.id); // Recursive call
+        }));
         children_page_token = children_res.data.nextPageToken || undefined;
       } while (children_page_token);
     } else {
@@ -105,7 +124,12 @@ export async function accept_ownership_transfers(file_id: string) {
 }
 
 // Request Ownership Transfer
-export async function request_ownership_transfer(file_id: string, current_owner_email: string): Promise<void> {
+// permission_ids (from the listing) lets us skip listing the item's permissions
+export async function request_ownership_transfer(
+  file_id: string,
+  current_owner_email: string,
+  permission_ids?: string[]
+): Promise<void> {
   // Avoid spamming requests if one is already considered pending
   if (ownership_transfer_requested_ids.has(file_id)) {
     core.info(`Ownership transfer already requested for item ${file_id}. Skipping.`);
@@ -117,14 +141,20 @@ export async function request_ownership_transfer(file_id: string, current_owner_
     // First, check if the service account already has *any* permission
     // This helps avoid errors if it's already an editor/viewer
     let existing_permission_id: string | null = null;
-    try {
-      const list_res = await drive.permissions.list({
-        fileId: file_id,
-        fields: "permissions(id, emailAddress)",
-      });
-      existing_permission_id = list_res.data.permissions?.find(p => p.emailAddress === service_account_email)?.id || null;
-    } catch (listError) {
-      core.debug(`Could not pre-check permissions for ${file_id} before transfer request: ${(listError as Error).message}`);
+    const sa_permission_id = permission_ids ? await get_service_account_permission_id() : null;
+    if (permission_ids && sa_permission_id) {
+      existing_permission_id = permission_ids.includes(sa_permission_id) ? sa_permission_id : null;
+    } else {
+      try {
+        const list_res = await run_in_drive_pool(() => drive.permissions.list({
+          fileId: file_id,
+          fields: "permissions(id, emailAddress)",
+          supportsAllDrives: true,
+        }));
+        existing_permission_id = list_res.data.permissions?.find(p => p.emailAddress === service_account_email)?.id || null;
+      } catch (listError) {
+        core.debug(`Could not pre-check permissions for ${file_id} before transfer request: ${(listError as Error).message}`);
+      }
     }
 
     core.info(`Requesting ownership transfer of item ${file_id} from ${current_owner_email} to ${service_account_email}`);
@@ -132,17 +162,19 @@ export async function request_ownership_transfer(file_id: string, current_owner_
     if (existing_permission_id) {
       // If SA already has a role, UPDATE the permission to request ownership
       core.debug(`Service account has existing permission (${existing_permission_id}). Updating role to 'owner' and requesting transfer.`);
-      await drive.permissions.update({
+      const permission_id = existing_permission_id;
+      await run_in_drive_pool(() => drive.permissions.update({
         fileId: file_id,
-        permissionId: existing_permission_id,
+        permissionId: permission_id,
         requestBody: { role: "owner" }, // Just specify the target role
         transferOwnership: true,
         fields: "id, role, pendingOwner", // Request fields for confirmation
-      });
+        supportsAllDrives: true,
+      }));
     } else {
       // If SA has no role, CREATE a new permission requesting ownership
       core.debug(`Service account has no existing permission. Creating permission with role 'owner' and requesting transfer.`);
-      await drive.permissions.create({
+      await run_in_drive_pool(() => drive.permissions.create({
         fileId: file_id,
         requestBody: {
           role: "owner",
@@ -153,7 +185,8 @@ export async function request_ownership_transfer(file_id: string, current_owner_
         sendNotificationEmail: true, // Keep notification for the owner
         emailMessage: `Automated Sync: Please approve ownership transfer of this item to the sync service (${service_account_email}) for management via GitHub Actions. Item ID: ${file_id}`,
         fields: "id, role, pendingOwner", // Request fields for confirmation
-      });
+        supportsAllDrives: true,
+      }));
     }
 
     core.info(`Ownership transfer request initiated for item ${file_id}. Owner (${current_owner_email}) needs to approve.`);
@@ -0,0 +1,62 @@
+import * as core from "@actions/core";
+import { with_api_retries } from "./retry.js";
+
+export const DEFAULT_DRIVE_CONCURRENCY = 5;
+
+// Scheduler state (keep state within this module, like the dry-run flag).
+// Shared by every Drive call site so the limit holds across listing, uploads, downloads, etc.
+let concurrency_limit = DEFAULT_DRIVE_CONCURRENCY;
+let active_tasks = 0;
+const waiting_tasks: (() => void)[] = [];
+
+export function set_drive_concurrency(limit: number): void {
+  if (!Number.isInteger(limit) || limit < 1) {
+    core.warning(`Invalid Drive concurrency '${limit}'. Using ${DEFAULT_DRIVE_CONCURRENCY}.`);
+    limit = DEFAULT_DRIVE_CONCURRENCY;
+  }
+  concurrency_limit = limit;
+  core.info(`Running up to ${concurrency_limit} Drive operation(s) concurrently.`);
+}
+
+export function get_drive_concurrency(): number {
+  return concurrency_limit;
+}
+
+async function acquire_slot(): Promise<void> {
+  if (active_tasks < concurrency_limit) {
+    active_tasks++;
+    return;
+  }
+  // The slot is handed over by release_slot, so active_tasks already counts us
+  await new Promise<void>(resolve => waiting_tasks.push(resolve));
+}
+
+function release_slot(): void {
+  const next_task = waiting_tasks.shift();
+  if (next_task) {
+    next_task();
+  } else {
+    active_tasks--;
+  }
+}
+
+/**
+ * Runs one Drive operation (an API call, or a download/export including its stream) as soon
+ * as one of the shared slots is free. Slots are reused the moment a task finishes (rolling
+ * window), so callers can start all their work at once with Promise.all.
+ * Rate-limit and server errors are retried (see with_api_retries) while keeping the slot,
+ * which also slows the other callers down while Google is pushing back.
+ * The task must not wait on other pooled tasks itself: with every slot held by such a task,
+ * nothing could run. Pool the individual calls and fan out (e.g. recursion) outside of them.
+ */
+export async function run_in_drive_pool<T>(
+  task: () => Promise<T>,
+  options: { retry?: boolean } = {} // retry: false for tasks that retry (and resume) internally
+): Promise<T> {
+  await acquire_slot();
+  try {
+    return options.retry === false ? await task() : await with_api_retries(task);
+  } finally {
+    release_slot();
+  }
+}
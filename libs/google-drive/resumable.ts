@@ -0,0 +1,131 @@
+import * as core from "@actions/core";
+import * as fs_promises from "fs/promises";
+import { drive_v3 } from "googleapis";
+import { auth } from "./auth.js";
+import { with_api_retries } from "./retry.js";
+
+const UPLOAD_BASE_URL = "https://www.googleapis.com/upload/drive/v3/files";
+const CHUNK_ALIGNMENT = 256 * 1024; // Drive requires chunk sizes in multiples of 256 KiB
+export const DEFAULT_RESUMABLE_THRESHOLD_MB = 5;
+export const DEFAULT_RESUMABLE_CHUNK_SIZE_MB = 8;
+
+// Upload settings (keep state within this module, like the Drive pool)
+let threshold_bytes = DEFAULT_RESUMABLE_THRESHOLD_MB * 1024 * 1024;
+let chunk_size_bytes = DEFAULT_RESUMABLE_CHUNK_SIZE_MB * 1024 * 1024;
+
+/**
+ * @param threshold_mb Files of at least this size (MiB) use resumable uploads.
+ * @param chunk_size_mb Size of each uploaded chunk (MiB), rounded to a multiple of 256 KiB.
+ */
+export function set_resumable_upload_options(threshold_mb: number, chunk_size_mb: number): void {
+  if (Number.isNaN(threshold_mb) || threshold_mb < 0) {
+    core.warning(`Invalid resumable upload threshold '${threshold_mb}' MiB. Using ${DEFAULT_RESUMABLE_THRESHOLD_MB}.`);
+    threshold_mb = DEFAULT_RESUMABLE_THRESHOLD_MB;
+  }
+  if (Number.isNaN(chunk_size_mb) || chunk_size_mb <= 0) {
+    core.warning(`Invalid resumable upload chunk size '${chunk_size_mb}' MiB. Using ${DEFAULT_RESUMABLE_CHUNK_SIZE_MB}.`);
+    chunk_size_mb = DEFAULT_RESUMABLE_CHUNK_SIZE_MB;
+  }
+  threshold_bytes = Math.round(threshold_mb * 1024 * 1024);
+  chunk_size_bytes = Math.max(CHUNK_ALIGNMENT, Math.round((chunk_size_mb * 1024 * 1024) / CHUNK_ALIGNMENT) * CHUNK_ALIGNMENT);
+  core.debug(`Resumable uploads from ${threshold_bytes} bytes in chunks of ${chunk_size_bytes} bytes.`);
+}
+
+export function should_upload_resumable(size: number): boolean {
+  return size > 0 && size >= threshold_bytes;
+}
+
+function format_mib(bytes: number): string {
+  return (bytes / (1024 * 1024)).toFixed(1);
+}
+
+/**
+ * Parses the Range header of a 308 (Resume Incomplete) response, e.g. "bytes=0-1048575".
+ * @returns The first byte the server has not acknowledged yet.
+ */
+function get_next_offset(range_header: string | undefined): number {
+  const match = /bytes=0-(\d+)/.exec(range_header || "");
+  return match ? Number(match[1]) + 1 : 0;
+}
+
+/**
+ * Asks Drive how much of an interrupted upload it has received.
+ * @returns The offset to resume from, or the file metadata if the upload already completed.
+ */
+async function query_upload_status(session_uri: string, size: number): Promise<{ offset: number; file?: drive_v3.Schema$File }> {
+  const res = await auth.request<drive_v3.Schema$File>({
+    url: session_uri,
+    method: "PUT",
+    headers: { "Content-Range": `bytes */${size}`, "Content-Length": "0" },
+    validateStatus: status => status === 308 || status === 200 || status === 201,
+  });
+  if (res.status === 308) return { offset: get_next_offset(res.headers["range"]) };
+  return { offset: size, file: res.data };
+}
+
+/**
+ * Uploads a file with Drive's resumable upload protocol: one session, then the content in
+ * chunks. A failed chunk (429, 403 rate limit, 5xx or a dropped connection) is retried by
+ * first asking Drive which bytes it acknowledged and resuming from there.
+ * @param file_id Existing file to update; a new file is created when omitted.
+ * @param metadata Request body (name, parents, ...) sent when opening the session.
+ * @returns Metadata of the uploaded file.
+ */
+export async function upload_file_resumable(
+  local_file_path: string,
+  size: number,
+  metadata: drive_v3.Schema$File,
+  fields: string,
+  file_id?: string
+): Promise<drive_v3.Schema$File> {
+  const query = `uploadType=resumable&supportsAllDrives=true&fields=${encodeURIComponent(fields)}`;
+  const session_res = await with_api_retries(() => auth.request({
+    url: file_id ? `${UPLOAD_BASE_URL}/${file_id}?${query}` : `${UPLOAD_BASE_URL}?${query}`,
+    method: file_id ? "PATCH" : "POST",
+    headers: {
+      "Content-Type": "application/json; charset=UTF-8",
+      "X-Upload-Content-Length": String(size),
+    },
+    data: metadata,
+  }), { retry_network_errors: true }); // Opening a session has no visible side effect
+  const session_uri = session_res.headers["location"];
+  if (!session_uri) throw new Error(`Drive did not return a resumable upload session for '${local_file_path}'.`);
+  core.info(`Started resumable upload of '${local_file_path}' (${format_mib(size)} MiB, chunks of ${format_mib(chunk_size_bytes)} MiB).`);
+
+  const file_handle = await fs_promises.open(local_file_path, "r");
+  try {
+    let offset = 0;
+    let resume_from_server = false; // Set after a failed attempt: the server may hold more (or less) than we sent
+    while (true) {
+      const result = await with_api_retries(async () => {
+        if (resume_from_server) {
+          const status = await query_upload_status(session_uri, size);
+          if (status.file) return status;
+          if (status.offset !== offset) core.info(`Resuming upload of '${local_file_path}' at byte ${status.offset}.`);
+          offset = status.offset;
+        }
+        resume_from_server = true;
+        const chunk_length = Math.min(chunk_size_bytes, size - offset);
+        const chunk = Buffer.alloc(chunk_length);
+        await file_handle.read(chunk, 0, chunk_length, offset);
+        const res = await auth.request<drive_v3.Schema$File>({
+          url: session_uri,
+          method: "PUT",
+          headers: { "Content-Range": `bytes ${offset}-${offset + chunk_length - 1}/${size}` },
+          data: chunk,
+          validateStatus: status => status === 308 || status === 200 || status === 201,
+        });
+        resume_from_server = false;
+        return res.status === 308
+          ? { offset: get_next_offset(res.headers["range"]) }
+          : { offset: size, file: res.data };
+      }, { retry_network_errors: true });
+
+      offset = result.offset;
+      core.info(`   Upload progress '${local_file_path}': ${format_mib(offset)} / ${format_mib(size)} MiB (${Math.floor((offset / size) * 100)}%)`);
+      if (result.file) return result.file;
+    }
+  } finally {
+    await file_handle.close();
+  }
+}
@@ -0,0 +1,136 @@
+import * as core from "@actions/core";
+
+export const DEFAULT_RETRY_BUDGET = 100;
+const MAX_RETRIES_PER_CALL = 5;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 32000; // Upper bound of the exponential backoff (also caps Retry-After)
+const RATE_LIMIT_REASONS = ["userRateLimitExceeded", "rateLimitExceeded"];
+const NETWORK_ERROR_CODES = ["ECONNRESET", "ETIMEDOUT", "EPIPE", "ECONNABORTED", "EAI_AGAIN"];
+
+type RetryReason = "429" | "403 rate limit" | "5xx" | "network";
+
+export interface ApiRetryOptions {
+  // Also retry dropped connections. Only safe for calls that can resume or be repeated
+  // without side effects (e.g. resumable upload chunks).
+  retry_network_errors?: boolean;
+}
+
+// Retry state (keep state within this module, like the Drive pool).
+// The budget is shared by every Google API call of the run, so a sustained outage
+// fails fast instead of multiplying the run time by the per-call retries.
+let retry_budget = DEFAULT_RETRY_BUDGET;
+let retries_used = 0;
+let budget_exhausted_warned = false;
+const retries_by_reason: Record<RetryReason, number> = { "429": 0, "403 rate limit": 0, "5xx": 0, "network": 0 };
+let recovered_calls = 0; // Calls that succeeded after at least one retry
+let failed_calls = 0; // Calls that still failed with a retryable error (retries or budget used up)
+
+export function set_retry_budget(budget: number): void {
+  if (!Number.isInteger(budget) || budget < 0) {
+    core.warning(`Invalid API retry budget '${budget}'. Using ${DEFAULT_RETRY_BUDGET}.`);
+    budget = DEFAULT_RETRY_BUDGET;
+  }
+  retry_budget = budget;
+}
+
+// The parts of a GaxiosError (or a Node network error) the retry logic reads
+interface ApiErrorLike {
+  message?: string;
+  code?: unknown; // HTTP status or Node error code (e.g. "ECONNRESET")
+  status?: number;
+  errors?: { reason?: string }[];
+  error?: { code?: unknown }; // Network error wrapped by gaxios
+  config?: { method?: string; url?: unknown };
+  response?: {
+    status?: number;
+    headers?: Record<string, unknown>;
+    data?: { error?: { errors?: { reason?: string }[] } };
+  };
+}
+
+function as_api_error(error: unknown): ApiErrorLike {
+  return typeof error === "object" && error !== null ? (error as ApiErrorLike) : {};
+}
+
+/**
+ * Classifies an error from a googleapis call.
+ * @returns Why the call may be retried, or null if it must not be.
+ */
+function get_retry_reason(error: unknown, options: ApiRetryOptions): RetryReason | null {
+  const err = as_api_error(error);
+  if (options.retry_network_errors && !err.response &&
+    [err.code, err.error?.code].some(code => typeof code === "string" && NETWORK_ERROR_CODES.includes(code))) {
+    return "network";
+  }
+  const status = Number(err.response?.status ?? err.status ?? err.code);
+  if (status === 429) return "429";
+  if (status >= 500 && status < 600) return "5xx";
+  if (status === 403) {
+    const reasons = (err.errors || err.response?.data?.error?.errors || []).map(e => e.reason);
+    if (reasons.some(reason => reason !== undefined && RATE_LIMIT_REASONS.includes(reason))) return "403 rate limit";
+  }
+  return null;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function get_retry_after_ms(error: unknown): number | null {
+  const value = as_api_error(error).response?.headers?.["retry-after"];
+  if (value === undefined || value === null || value === "") return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date_ms = Date.parse(String(value));
+  return Number.isNaN(date_ms) ? null : Math.max(0, date_ms - Date.now());
+}
+
+/**
+ * Runs a Google API call (Drive, Slides, export), retrying 429, 403 rate-limit and 5xx errors
+ * with full-jitter exponential backoff. A Retry-After header replaces the computed delay.
+ * The task is re-run from scratch, so it must recreate any request body stream it sends.
+ */
+export async function with_api_retries<T>(task: () => Promise<T>, options: ApiRetryOptions = {}): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const result = await task();
+      if (attempt > 0) recovered_calls++;
+      return result;
+    } catch (error) {
+      const reason = get_retry_reason(error, options);
+      if (!reason) throw error;
+      if (attempt >= MAX_RETRIES_PER_CALL || retries_used >= retry_budget) {
+        failed_calls++;
+        if (retries_used >= retry_budget && !budget_exhausted_warned) {
+          budget_exhausted_warned = true;
+          core.warning(`Google API retry budget of ${retry_budget} retries is used up. Further rate-limit and server errors fail immediately.`);
+        }
+        throw error;
+      }
+      const err = as_api_error(error);
+      const delay_ms = Math.min(
+        get_retry_after_ms(error) ?? Math.random() * BASE_DELAY_MS * 2 ** attempt,
+        MAX_DELAY_MS
+      );
+      retries_used++;
+      retries_by_reason[reason]++;
+      const request = [err.config?.method, err.config?.url].filter(Boolean).join(" ");
+      core.info(`Google API call${request ? ` ${request}` : ""} failed (${reason}: ${err.message}). Retry ${attempt + 1}/${MAX_RETRIES_PER_CALL} in ${(delay_ms / 1000).toFixed(1)}s.`);
+      await new Promise(resolve => setTimeout(resolve, delay_ms));
+    }
+  }
+}
+
+/**
+ * Adds the retry counts of this run to the job summary (only if anything was retried).
+ */
+export async function publish_retry_summary(): Promise<void> {
+  if (retries_used === 0 && failed_calls === 0) return;
+  core.info(`Google API retries: ${retries_used} (budget ${retry_budget}), recovered calls: ${recovered_calls}, failed calls: ${failed_calls}.`);
+  core.summary.addHeading("Google API retries", 2);
+  core.summary.addTable([
+    [{ data: "Retries", header: true }, { data: "Count", header: true }],
+    ...(Object.keys(retries_by_reason) as RetryReason[]).map(reason => [`Retried after ${reason}`, String(retries_by_reason[reason])]),
+    ["Total retries (budget)", `${retries_used} (${retry_budget})`],
+    ["Calls recovered by retrying", String(recovered_calls)],
+    ["Calls failed with retryable errors", String(failed_calls)],
+  ]);
+  await core.summary.write();
+}
@@ -0,0 +1,97 @@
+import * as core from "@actions/core";
+import { drive } from "./auth.js";
+import { run_in_drive_pool } from "./pool.js";
+import { DrivePermissionsListResponse } from "./types.js";
+
+// Member roles that can move items of a Shared Drive to the trash
+const MANAGER_ROLE_LABELS: Record<string, string> = {
+  organizer: "Manager",
+  fileOrganizer: "Content manager",
+};
+
+export interface SharedDriveManager {
+  email: string;
+  role: string; // "Manager" or "Content manager"
+}
+
+// Shared Drive of the target being synced (keep state within this module, like the listing mode).
+// Targets are processed one at a time, so the listing calls read it instead of threading it through.
+let active_shared_drive_id: string | null = null;
+const managers_by_drive = new Map<string, Promise<SharedDriveManager[]>>();
+
+export function set_active_shared_drive(drive_id: string | null): void {
+  active_shared_drive_id = drive_id;
+}
+
+export function get_active_shared_drive(): string | null {
+  return active_shared_drive_id;
+}
+
+/**
+ * Query parameters that scope files.list/changes.list to the active Shared Drive
+ * (empty for My Drive targets).
+ */
+export function get_list_scope(): { corpora?: string; driveId?: string } {
+  return active_shared_drive_id ? { corpora: "drive", driveId: active_shared_drive_id } : {};
+}
+
+/**
+ * Finds the Shared Drive a target folder lives on.
+ * @param configured The target's `shared_drive` flag; auto-detected when undefined.
+ * @returns The Shared Drive ID, or null for folders in My Drive.
+ */
+export async function resolve_shared_drive_id(folder_id: string, configured?: boolean): Promise<string | null> {
+  if (configured === false) return null;
+  try {
+    const res = await run_in_drive_pool(() => drive.files.get({
+      fileId: folder_id,
+      fields: "id, driveId",
+      supportsAllDrives: true,
+    }));
+    const drive_id = res.data.driveId || null;
+    if (configured && !drive_id) {
+      core.warning(`Folder ${folder_id} is configured with shared_drive: true but is not on a Shared Drive. Syncing it as a My Drive folder.`);
+    }
+    return drive_id;
+  } catch (error) {
+    core.warning(`Could not check whether folder ${folder_id} is on a Shared Drive: ${(error as Error).message}. Syncing it as a My Drive folder.`);
+    return null;
+  }
+}
+
+async function list_shared_drive_managers(drive_id: string): Promise<SharedDriveManager[]> {
+  const managers: SharedDriveManager[] = [];
+  let next_page_token: string | undefined;
+  try {
+    do {
+      const page_token = next_page_token;
+      const res = await run_in_drive_pool(() => drive.permissions.list({
+        fileId: drive_id,
+        fields: "nextPageToken, permissions(role, emailAddress)",
+        pageToken: page_token,
+        supportsAllDrives: true,
+      })) as { data: DrivePermissionsListResponse };
+      for (const permission of res.data.permissions || []) {
+        const role_label = MANAGER_ROLE_LABELS[permission.role || ""];
+        if (role_label && permission.emailAddress) managers.push({ email: permission.emailAddress, role: role_label });
+      }
+      next_page_token = res.data.nextPageToken;
+    } while (next_page_token);
+  } catch (error) {
+    core.warning(`Could not list the members of Shared Drive ${drive_id}: ${(error as Error).message}`);
+  }
+  return managers;
+}
+
+/**
+ * Members of a Shared Drive who can remove its items (Managers and Content managers).
+ * Looked up once per drive and run.
+ */
+export function get_shared_drive_managers(drive_id: string): Promise<SharedDriveManager[]> {
+  let managers = managers_by_drive.get(drive_id);
+  if (!managers) {
+    managers = list_shared_drive_managers(drive_id);
+    managers_by_drive.set(drive_id, managers);
+  }
+  return managers;
+}
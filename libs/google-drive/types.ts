@@ -4,8 +4,20 @@ export interface DriveFile {
   mimeType?: string;
   md5Checksum?: string;
   owners?: { emailAddress: string }[];
+  capabilities?: DriveCapabilities;
+  permissionIds?: string[];
   modifiedTime: string;
   webViewLink?: string;
+  parents?: string[]; // Only requested by the Changes API listing
+  trashed?: boolean;
+  appProperties?: { [key: string]: string };
+}
+
+// Subset of the Drive file capabilities requested while listing
+export interface DriveCapabilities {
+  canEdit?: boolean;
+  canTrash?: boolean;
+  canShare?: boolean;
 }
 
 export interface DriveFilesListResponse {
@@ -13,6 +25,18 @@ export interface DriveFilesListResponse {
   nextPageToken?: string;
 }
 
+export interface DriveChange {
+  fileId?: string;
+  removed?: boolean;
+  file?: DriveFile;
+}
+
+export interface DriveChangesListResponse {
+  changes?: DriveChange[];
+  nextPageToken?: string;
+  newStartPageToken?: string; // Only set on the last page
+}
+
 export interface DrivePermission {
   id: string;
   role: string;
@@ -30,8 +54,12 @@ export interface DriveItem {
   name: string;
   mimeType: string;
   hash?: string; // md5Checksum for non-Google Docs files
+  source_hash?: string; // MD5 of the repo file a converted Google Doc was created from (see convert.ts)
   modifiedTime: string; // RFC 3339 timestamp (e.g., '2025-04-16T12:34:56.789Z')
   owned?: boolean; // Whether the file is owned by the authenticated user
-  permissions?: DrivePermission[]; // Access control details
+  ownerEmail?: string; // From files.list `owners` (absent for items in shared drives)
+  capabilities?: DriveCapabilities; // What the authenticated user may do with the item
+  permissionIds?: string[]; // IDs of all permissions on the item
+  permissions?: DrivePermission[]; // Full access control details, only loaded on demand (see get_item_permissions)
   webViewLink?: string;
 }
@@ -0,0 +1,166 @@
+import * as core from "@actions/core";
+import * as fs_promises from "fs/promises";
+import * as path from "path";
+import { google } from "googleapis";
+import { JWT } from "google-auth-library";
+import { run_in_drive_pool } from "../google-drive/pool.js";
+import { DriveItem } from "../google-drive/types.js";
+
+export interface SheetTabStats {
+  tab: string; // Tab title
+  file_path: string; // Exported CSV file
+  status: "added" | "removed" | "updated" | "unchanged";
+  rows_added: number;
+  rows_removed: number;
+  rows_changed: number;
+}
+
+export interface SheetExportStats {
+  spreadsheet_id: string;
+  spreadsheet_name: string;
+  tabs: SheetTabStats[];
+}
+
+// Quote CSV fields only where needed, so unchanged cells always serialize the same way
+function to_csv_field(value: string): string {
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serializes the values of a tab as normalized CSV records: formatted values, trailing empty
+ * cells and rows dropped, LF line endings, so unchanged data exports byte for byte the same.
+ */
+function to_csv_records(values: unknown[][]): string[] {
+  const records = values.map(row => {
+    const cells = row.map(cell => (cell === null || cell === undefined ? "" : String(cell)));
+    while (cells.length > 0 && cells[cells.length - 1] === "") cells.pop();
+    return cells.map(to_csv_field).join(",");
+  });
+  while (records.length > 0 && records[records.length - 1] === "") records.pop();
+  return records;
+}
+
+// Splits CSV text into records (line breaks inside quoted fields belong to the record)
+function split_csv_records(text: string): string[] {
+  const records: string[] = [];
+  let current = "";
+  let in_quotes = false;
+  for (const char of text.replace(/\r\n/g, "\n")) {
+    if (char === '"') in_quotes = !in_quotes;
+    if (char === "\n" && !in_quotes) {
+      records.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current) records.push(current);
+  return records;
+}
+
+/**
+ * Counts the rows added, removed and changed between two versions of a tab. Rows equal at the
+ * start and end are skipped; in between, rows found on both sides (moved) don't count, and
+ * the remaining removed/added rows are paired up as changed rows. A fast approximation of a
+ * row diff that stays linear for large sheets.
+ */
+function compare_records(old_records: string[], new_records: string[]): Pick<SheetTabStats, "rows_added" | "rows_removed" | "rows_changed"> {
+  let start = 0;
+  while (start < old_records.length && start < new_records.length && old_records[start] === new_records[start]) start++;
+  let old_end = old_records.length;
+  let new_end = new_records.length;
+  while (old_end > start && new_end > start && old_records[old_end - 1] === new_records[new_end - 1]) {
+    old_end--;
+    new_end--;
+  }
+  const remaining_old = new Map<string, number>();
+  for (const record of old_records.slice(start, old_end)) remaining_old.set(record, (remaining_old.get(record) || 0) + 1);
+  let added = 0;
+  for (const record of new_records.slice(start, new_end)) {
+    const count = remaining_old.get(record) || 0;
+    if (count > 0) {
+      remaining_old.set(record, count - 1);
+    } else {
+      added++;
+    }
+  }
+  const removed = Array.from(remaining_old.values()).reduce((sum, count) => sum + count, 0);
+  const changed = Math.min(added, removed);
+  return { rows_added: added - changed, rows_removed: removed - changed, rows_changed: changed };
+}
+
+// File name of a tab's CSV: the tab title without characters that are unsafe in paths
+function tab_file_name(title: string, sheet_id: number | null | undefined, used_names: Set<string>): string {
+  let name = `${title.replace(/[\\/:*?"<>|]/g, "_").trim() || "Sheet"}.csv`;
+  if (used_names.has(name.toLowerCase())) name = name.replace(/\.csv$/, ` (${sheet_id}).csv`);
+  used_names.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * Exports every grid tab of a Google Sheet as normalized CSV into output_dir (one file per tab,
+ * named after the tab) and removes the CSVs of tabs that no longer exist.
+ * The previous files are compared with the new ones to report row changes per tab.
+ * @param auth_client Authenticated client (the Drive scope also grants Sheets API read access).
+ */
+export async function export_sheet_tabs_as_csv(
+  auth_client: JWT,
+  drive_item: DriveItem,
+  output_dir: string
+): Promise<SheetExportStats> {
+  core.info(`Exporting tabs of '${drive_item.name}' (ID: ${drive_item.id}) as CSV to ${output_dir}/`);
+  const sheets = google.sheets({ version: "v4", auth: auth_client });
+  const spreadsheet = await run_in_drive_pool(() => sheets.spreadsheets.get({
+    spreadsheetId: drive_item.id,
+    fields: "sheets.properties(sheetId,title,index,sheetType)",
+  }));
+  // Chart sheets have no cells
+  const tabs = (spreadsheet.data.sheets || [])
+    .map(sheet => sheet.properties!)
+    .filter(properties => properties.sheetType === "GRID" && properties.title);
+  const values_response = tabs.length === 0 ? null : await run_in_drive_pool(() => sheets.spreadsheets.values.batchGet({
+    spreadsheetId: drive_item.id,
+    ranges: tabs.map(properties => `'${properties.title!.replace(/'/g, "''")}'`),
+    majorDimension: "ROWS",
+    valueRenderOption: "FORMATTED_VALUE",
+  }));
+
+  await fs_promises.mkdir(output_dir, { recursive: true });
+  const previous_files = new Set((await fs_promises.readdir(output_dir)).filter(name => name.endsWith(".csv")));
+  const stats: SheetExportStats = { spreadsheet_id: drive_item.id, spreadsheet_name: drive_item.name, tabs: [] };
+  const used_names = new Set<string>();
+
+  for (const [index, properties] of tabs.entries()) {
+    const file_name = tab_file_name(properties.title!, properties.sheetId, used_names);
+    const file_path = path.join(output_dir, file_name);
+    const records = to_csv_records((values_response?.data.valueRanges?.[index]?.values || []) as unknown[][]);
+    const previous_text = previous_files.has(file_name) ? await fs_promises.readFile(file_path, "utf-8") : null;
+    previous_files.delete(file_name);
+    const row_stats = compare_records(previous_text === null ? [] : split_csv_records(previous_text), records);
+    const changed = row_stats.rows_added + row_stats.rows_removed + row_stats.rows_changed > 0;
+    await fs_promises.writeFile(file_path, records.length > 0 ? records.join("\n") + "\n" : "");
+    stats.tabs.push({
+      tab: properties.title!,
+      file_path,
+      status: previous_text === null ? "added" : changed ? "updated" : "unchanged",
+      ...row_stats,
+    });
+  }
+
+  // Tabs that were deleted or renamed in the spreadsheet
+  for (const file_name of previous_files) {
+    const file_path = path.join(output_dir, file_name);
+    const previous_rows = split_csv_records(await fs_promises.readFile(file_path, "utf-8")).length;
+    await fs_promises.rm(file_path, { force: true });
+    stats.tabs.push({
+      tab: file_name.replace(/\.csv$/, ""),
+      file_path,
+      status: "removed",
+      rows_added: 0,
+      rows_removed: previous_rows,
+      rows_changed: 0,
+    });
+  }
+  core.info(`   -> Exported ${tabs.length} tab(s) of '${drive_item.name}': ${stats.tabs.filter(tab => tab.status !== "unchanged").length} changed.`);
+  return stats;
+}
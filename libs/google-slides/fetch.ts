@@ -1,6 +1,7 @@
 import * as core from "@actions/core";
 import { google, slides_v1 } from "googleapis"; // Import slides_v1
 import { JWT } from 'google-auth-library'; // Import JWT type if needed
+import { run_in_drive_pool } from "../google-drive/pool.js";
 
 // Re-use the authenticated client from drive/auth.ts
 // We assume the 'auth' object exported from there includes the necessary Slides scope.
@@ -20,11 +21,12 @@ export async function fetch_google_slide_json(
   const slides = google.slides({ version: "v1", auth: authClient });
 
   try {
-    const response = await slides.presentations.get({
+    // Slides API calls share the Drive pool (same service account, same quota pressure)
+    const response = await run_in_drive_pool(() => slides.presentations.get({
       presentationId: presentation_id,
       // You might need specific fields later, but getting the whole object is often easiest
       // fields: "slides,pageSize,title" // Example specific fields
-    });
+    }));
 
     if (response.data) {
       core.info(`   - Successfully fetched Slides content for ID: ${presentation_id}`);
@@ -0,0 +1,148 @@
+import * as core from "@actions/core";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { slides_v1 } from "googleapis";
+
+// Placeholders holding the slide title
+const TITLE_PLACEHOLDER_TYPES = new Set(["TITLE", "CENTERED_TITLE"]);
+
+function escape_markdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>|~]/g, "\\$&");
+}
+
+function normalize_whitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Splits a text box into Markdown lines: one per paragraph, bullets as (nested) list items.
+ * Auto text such as slide numbers is left out, as it changes when slides move.
+ */
+function render_text_lines(text: slides_v1.Schema$TextContent | undefined): string[] {
+  const lines: string[] = [];
+  let current: { text: string; bullet: slides_v1.Schema$Bullet | undefined } | null = null;
+  const flush_paragraph = () => {
+    const paragraph_text = current ? normalize_whitespace(current.text) : "";
+    if (current && paragraph_text) {
+      const indent = "    ".repeat(current.bullet?.nestingLevel || 0);
+      lines.push(current.bullet ? `${indent}- ${paragraph_text}` : paragraph_text);
+    }
+    current = null;
+  };
+
+  for (const element of text?.textElements || []) {
+    if (element.paragraphMarker) {
+      flush_paragraph();
+      current = { text: "", bullet: element.paragraphMarker.bullet };
+    } else if (element.textRun?.content) {
+      if (!current) current = { text: "", bullet: undefined };
+      const content = escape_markdown(element.textRun.content.replace(/\u000b/g, " "));
+      const url = element.textRun.style?.link?.url;
+      current.text += url && content.trim() ? `[${content}](${url.replace(/ /g, "%20")})` : content;
+    }
+  }
+  flush_paragraph();
+  return lines;
+}
+
+function render_table(table: slides_v1.Schema$Table): string | null {
+  const rows = (table.tableRows || []).map(row =>
+    (row.tableCells || []).map(cell => render_text_lines(cell.text).join("<br>"))
+  );
+  const column_count = Math.max(0, table.columns || 0, ...rows.map(row => row.length));
+  if (rows.length === 0 || column_count === 0) return null;
+  const format_row = (cells: string[]) =>
+    `| ${Array.from({ length: column_count }, (_, index) => cells[index] || "").join(" | ")} |`;
+  return [
+    format_row(rows[0]),
+    format_row(Array(column_count).fill("---")),
+    ...rows.slice(1).map(format_row),
+  ].join("\n");
+}
+
+/**
+ * Collects the slide title and Markdown blocks of page elements, in the order the Slides
+ * API lists them (groups are flattened).
+ */
+function render_page_elements(
+  elements: slides_v1.Schema$PageElement[],
+  blocks: string[],
+  title: { text: string | null }
+): void {
+  for (const element of elements) {
+    if (element.elementGroup) {
+      render_page_elements(element.elementGroup.children || [], blocks, title);
+    } else if (element.table) {
+      const table = render_table(element.table);
+      if (table) blocks.push(table);
+    } else if (element.shape?.text) {
+      const lines = render_text_lines(element.shape.text);
+      if (lines.length === 0) continue;
+      if (!title.text && TITLE_PLACEHOLDER_TYPES.has(element.shape.placeholder?.type || "")) {
+        title.text = lines.join(" ");
+      } else {
+        blocks.push(lines.join("\n"));
+      }
+    }
+  }
+}
+
+/**
+ * Extracts the words of a presentation as Markdown: per slide, in slide order, its title,
+ * body text, tables and speaker notes. Each slide starts with a comment holding its object
+ * ID, which doesn't change when slides are reordered, so text edits show up as line diffs.
+ *
+ * @param presentation_json - The Google Slides presentation object.
+ * @returns The Markdown text.
+ */
+export function generate_slide_markdown(presentation_json: slides_v1.Schema$Presentation): string {
+  const sections: string[] = [`# ${escape_markdown(presentation_json.title || "Untitled presentation")}`];
+
+  for (const slide of presentation_json.slides || []) {
+    const blocks: string[] = [];
+    const title = { text: null as string | null };
+    render_page_elements(slide.pageElements || [], blocks, title);
+
+    const skipped = slide.slideProperties?.isSkipped ? " (skipped)" : "";
+    const slide_lines = [
+      `<!-- slide ${slide.objectId} -->`,
+      `## ${title.text || "Untitled slide"}${skipped}`,
+      ...blocks.map(block => `\n${block}`),
+    ];
+
+    // Speaker notes live in one shape of the notes page
+    const notes_page = slide.slideProperties?.notesPage;
+    const notes_shape = notes_page?.pageElements?.find(
+      element => element.objectId === notes_page.notesProperties?.speakerNotesObjectId
+    );
+    const notes_lines = render_text_lines(notes_shape?.shape?.text);
+    if (notes_lines.length > 0) {
+      slide_lines.push("\n**Speaker notes:**", `\n${notes_lines.join("\n")}`);
+    }
+    sections.push(slide_lines.join("\n"));
+  }
+  return sections.join("\n\n") + "\n";
+}
+
+/**
+ * Writes the generated Markdown to a file.
+ * Ensures the output directory exists.
+ *
+ * @param markdown - The Markdown content.
+ * @param output_markdown_path - The path where the Markdown file should be saved.
+ * @returns Boolean indicating success.
+ */
+export async function write_slide_markdown_file(
+  markdown: string,
+  output_markdown_path: string
+): Promise<boolean> {
+  try {
+    await fs.mkdir(path.dirname(output_markdown_path), { recursive: true });
+    core.info(`   - Writing slide text to: ${output_markdown_path}`);
+    await fs.writeFile(output_markdown_path, markdown);
+    return true;
+  } catch (error: unknown) {
+    core.error(`   - Failed to write slide text to ${output_markdown_path}: ${(error as Error).message}`);
+    return false;
+  }
+}
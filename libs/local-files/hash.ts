@@ -1,3 +1,4 @@
+import { createReadStream } from "fs";
 import * as fs_promises from "fs/promises";
 import { createHash } from "crypto";
 
@@ -6,3 +7,21 @@ export async function compute_hash(file_path: string): Promise<string> {
   const content = await fs_promises.readFile(file_path);
   return createHash("md5").update(content).digest("hex");
 }
+
+// Compute the SHA Git would give the file's blob object ("blob <size>\0<content>")
+export function compute_git_blob_sha(content: Buffer): string {
+  return createHash("sha1").update(`blob ${content.length}\0`).update(content).digest("hex");
+}
+
+// Compute both hashes in a single streamed read (md5 matches Drive's md5Checksum, blob SHA matches Git).
+// Streaming keeps memory flat and works past the 2 GiB limit of readFile for large media files.
+export async function compute_file_hashes(file_path: string): Promise<{ hash: string; git_blob_sha: string }> {
+  const { size } = await fs_promises.stat(file_path);
+  const md5 = createHash("md5");
+  const sha1 = createHash("sha1").update(`blob ${size}\0`);
+  for await (const chunk of createReadStream(file_path)) {
+    md5.update(chunk as Buffer);
+    sha1.update(chunk as Buffer);
+  }
+  return { hash: md5.digest("hex"), git_blob_sha: sha1.digest("hex") };
+}
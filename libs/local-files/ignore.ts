@@ -0,0 +1,121 @@
+import * as core from "@actions/core";
+import * as fs_promises from "fs/promises";
+import * as path from "path";
+import ignore from "ignore";
+import { minimatch } from "minimatch";
+
+// Per-directory ignore files, both read with full .gitignore semantics.
+// .driveignore rules are applied after .gitignore rules in the same directory,
+// so a .driveignore can also re-include (`!pattern`) something Git ignores.
+export const IGNORE_FILE_NAMES = [".gitignore", ".driveignore"];
+
+// Paths that are never synced, regardless of any ignore file
+// (.sync-state/ holds the committed sync-state manifests, see libs/sync-logic/state.ts)
+const always_ignored_matcher = ignore().add([".git/", ".sync-state/"]);
+
+/**
+ * Rules loaded from the ignore files of one directory.
+ * `base_dir` is the repo-relative POSIX path of that directory ("." = repo root);
+ * the rules match paths relative to it, exactly like a nested .gitignore.
+ */
+export interface IgnoreScope {
+  base_dir: string;
+  matcher: ignore.Ignore;
+}
+
+/**
+ * Reads .gitignore and .driveignore in a directory and combines them into one scope.
+ * @param dir_path Repo-relative POSIX path of the directory.
+ * @returns The scope, or null if the directory has no ignore rules.
+ */
+export async function load_ignore_scope(dir_path: string): Promise<IgnoreScope | null> {
+  const matcher = ignore();
+  let rule_count = 0;
+  for (const file_name of IGNORE_FILE_NAMES) {
+    const ignore_file_path = path.join(dir_path, file_name);
+    try {
+      const content = await fs_promises.readFile(ignore_file_path, "utf-8");
+      matcher.add(content);
+      rule_count++;
+      core.debug(`Loaded ignore rules from ${ignore_file_path}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        core.warning(`Could not read ${ignore_file_path}: ${(error as Error).message}`);
+      }
+    }
+  }
+  return rule_count > 0 ? { base_dir: dir_path, matcher } : null;
+}
+
+/**
+ * Loads the ignore scopes of every directory *above* root_dir (from the repo root down),
+ * so a target rooted in a subdirectory still honours the repository's .gitignore files.
+ * @param root_dir Repo-relative path the listing starts from.
+ */
+export async function load_ancestor_scopes(root_dir: string): Promise<IgnoreScope[]> {
+  const normalized_root = path.posix.normalize(root_dir.replace(/\\/g, "/"));
+  if (normalized_root === "." || path.isAbsolute(normalized_root) || normalized_root.startsWith("..")) {
+    return [];
+  }
+  const scopes: IgnoreScope[] = [];
+  const parts = normalized_root.split("/").filter(Boolean);
+  for (let depth = 0; depth < parts.length; depth++) {
+    const dir_path = depth === 0 ? "." : parts.slice(0, depth).join("/");
+    const scope = await load_ignore_scope(dir_path);
+    if (scope) scopes.push(scope);
+  }
+  return scopes;
+}
+
+/**
+ * Decides whether a path is ignored by a stack of nested ignore scopes (outermost first).
+ * Like Git, the deepest scope with a matching rule wins, and a later `!negation`
+ * within a scope re-includes the path.
+ * @param scopes Ignore scopes ordered from the repo root down to the path's directory.
+ * @param repo_path Repo-relative POSIX path of the file or directory.
+ * @param is_directory Whether the path is a directory (enables `dir/` rules).
+ */
+export function is_ignored_by_scopes(scopes: IgnoreScope[], repo_path: string, is_directory: boolean): boolean {
+  if (always_ignored_matcher.ignores(is_directory ? `${path.posix.basename(repo_path)}/` : path.posix.basename(repo_path))) {
+    return true;
+  }
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    const relative_path = scope.base_dir === "." ? repo_path : path.posix.relative(scope.base_dir, repo_path);
+    if (!relative_path || relative_path.startsWith("..")) continue; // Scope does not contain the path
+    const result = scope.matcher.test(is_directory ? `${relative_path}/` : relative_path);
+    if (result.ignored) return true;
+    if (result.unignored) return false;
+  }
+  return false;
+}
+
+/**
+ * Builds a matcher for config-level ignore patterns (sync.json `ignore`), interpreted with
+ * .gitignore syntax relative to the target's local root. These always win over ignore files.
+ */
+export function create_config_matcher(patterns: string[]): ignore.Ignore {
+  return ignore().add(patterns);
+}
+
+/**
+ * Checks a file path (relative to the target's local root) against `include` globs.
+ * An empty include list includes everything.
+ */
+export function matches_include_patterns(relative_path: string, include_patterns: string[]): boolean {
+  if (include_patterns.length === 0) return true;
+  return include_patterns.some(pattern => minimatch(relative_path, pattern, { dot: true }));
+}
+
+/**
+ * Splits Drive (or local) entries into those matching the `include` globs and the rest.
+ * Used so a target with `include` rules never treats files outside them as its own.
+ */
+export function partition_by_include<T extends { path: string }>(entries: T[], include_patterns: string[]): [T[], T[]] {
+  const included: T[] = [];
+  const excluded: T[] = [];
+  for (const entry of entries) {
+    (matches_include_patterns(entry.path, include_patterns) ? included : excluded).push(entry);
+  }
+  return [included, excluded];
+}
@@ -2,65 +2,94 @@ import * as core from "@actions/core";
 import * as fs_promises from "fs/promises";
 import * as fs from "fs";
 import * as path from "path";
-import { glob } from "glob";
 import { FileInfo } from "./types.js";
-import { compute_hash } from "./hash.js";
-import { config } from "../config.js"; // Import config for ignore patterns
+import { compute_file_hashes } from "./hash.js";
+import {
+  IgnoreScope,
+  create_config_matcher,
+  is_ignored_by_scopes,
+  load_ancestor_scopes,
+  load_ignore_scope,
+  matches_include_patterns,
+} from "./ignore.js";
 
-// List local files
-export async function list_local_files(root_dir: string): Promise<FileInfo[]> {
+/**
+ * Lists the files under root_dir that should be synced.
+ * Applies, in order: config `ignore` patterns (gitignore syntax, relative to root_dir),
+ * every .gitignore/.driveignore from the repo root down (nested files, negations and
+ * anchored patterns behave like Git), then the optional `include` globs.
+ * @param root_dir Directory (relative to the repo root) to list.
+ * @param config_ignore_patterns Ignore patterns from sync.json (global or per-target).
+ * @param include_patterns If non-empty, only files matching at least one glob are kept.
+ * @returns Files with paths relative to root_dir.
+ */
+export async function list_local_files(
+  root_dir: string,
+  config_ignore_patterns: string[],
+  include_patterns: string[] = []
+): Promise<FileInfo[]> {
   const files: FileInfo[] = [];
-  const git_ignore_path = path.join(root_dir, '.gitignore');
-  let ignore_patterns = config.ignore.concat([".git/**"]); // Start with config ignores
+  if (!fs.existsSync(root_dir)) {
+    core.info(`Local directory '${root_dir}' does not exist yet. No local files found.`);
+    return files;
+  }
+  const root_repo_path = path.posix.normalize(root_dir.replace(/\\/g, "/"));
+  const config_matcher = create_config_matcher(config_ignore_patterns);
+  core.info(`Using ignore patterns: ${config_ignore_patterns.join(', ') || '(none)'} plus .gitignore/.driveignore files`);
+  if (include_patterns.length > 0) {
+    core.info(`Using include patterns: ${include_patterns.join(', ')}`);
+  }
+
+  const ancestor_scopes = await load_ancestor_scopes(root_dir);
 
-  // Read .gitignore if it exists
-  if (fs.existsSync(git_ignore_path)) {
+  // Walk directory by directory so ignored folders are pruned and nested ignore files are picked up
+  const walk = async (relative_dir: string, parent_scopes: IgnoreScope[]): Promise<void> => {
+    const dir_repo_path = relative_dir ? path.posix.join(root_repo_path, relative_dir) : root_repo_path;
+    const dir_scope = await load_ignore_scope(dir_repo_path);
+    const scopes = dir_scope ? [...parent_scopes, dir_scope] : parent_scopes;
+
+    let entries: fs.Dirent[];
     try {
-      const gitignore_content = await fs_promises.readFile(git_ignore_path, 'utf-8');
-      const gitignore_lines = gitignore_content.split('\n')
-        .map(line => line.trim())
-        .filter(line => line && !line.startsWith('#')); // Remove empty lines and comments
-      // Simple conversion: make suitable for glob (this might need refinement for complex .gitignore patterns)
-      const glob_patterns = gitignore_lines.map(line => {
-        if (line.endsWith('/')) return line + '**'; // Directory
-        // Treat plain file/dir names as potential dirs unless they contain wildcards
-        if (!line.includes('*') && !line.includes('?') && !line.endsWith('/') && !line.startsWith('!')) return line + '/**';
-        return line;
-      });
-      ignore_patterns = ignore_patterns.concat(glob_patterns);
-      core.debug(`Added patterns from .gitignore: ${glob_patterns.join(', ')}`);
+      entries = await fs_promises.readdir(path.join(root_dir, relative_dir), { withFileTypes: true });
     } catch (error) {
-      core.warning(`Could not read or parse .gitignore: ${(error as Error).message}`);
+      core.warning(`Could not read directory ${path.join(root_dir, relative_dir)}: ${(error as Error).message}`);
+      return;
     }
-  }
-  core.info(`Using ignore patterns: ${ignore_patterns.join(', ')}`);
+    entries.sort((a, b) => a.name.localeCompare(b.name));
 
-  const all_files = await glob("**", {
-    cwd: root_dir,
-    nodir: false,
-    dot: true, // Include dotfiles (like .github)
-    ignore: ignore_patterns, // Use combined ignore list
-    follow: false, // Don't follow symlinks
-    absolute: false, // Keep paths relative to root_dir
-  });
+    for (const entry of entries) {
+      const relative_path = relative_dir ? `${relative_dir}/${entry.name}` : entry.name;
+      const repo_path = path.posix.join(root_repo_path, relative_path);
+      const is_directory = entry.isDirectory();
 
-  for (const relative_path of all_files) {
-    const full_path = path.join(root_dir, relative_path);
-    try {
-      const stats = await fs_promises.lstat(full_path); // Use lstat to avoid following symlinks if any slip through
-      if (stats.isFile()) {
-        const hash = await compute_hash(full_path);
-        files.push({ path: full_path, hash, relative_path });
-      } else if (stats.isDirectory()) {
-        // core.debug(`Ignoring directory: ${relative_path}`);
+      if (config_matcher.ignores(is_directory ? `${relative_path}/` : relative_path) ||
+        is_ignored_by_scopes(scopes, repo_path, is_directory)) {
+        core.debug(`Ignoring ${is_directory ? 'directory' : 'file'}: ${relative_path}`);
+        continue;
+      }
+
+      if (is_directory) {
+        await walk(relative_path, scopes);
+      } else if (entry.isFile()) {
+        if (!matches_include_patterns(relative_path, include_patterns)) {
+          core.debug(`Not included by include patterns: ${relative_path}`);
+          continue;
+        }
+        const full_path = path.join(root_dir, relative_path);
+        try {
+          const { hash, git_blob_sha } = await compute_file_hashes(full_path);
+          files.push({ path: full_path, hash, git_blob_sha, relative_path });
+        } catch (error) {
+          // Ignore errors like permission denied or file disappearing during the walk
+          core.warning(`Could not read file ${full_path}: ${(error as Error).message}`);
+        }
       } else {
         core.debug(`Ignoring non-file item: ${relative_path}`);
       }
-    } catch (error) {
-      // Ignore errors like permission denied or file disappearing during glob
-      core.warning(`Could not stat file ${full_path}: ${(error as Error).message}`);
     }
-  }
+  };
+
+  await walk("", ancestor_scopes);
   core.info(`Found ${files.length} local files to potentially sync.`);
   return files;
 }
@@ -0,0 +1,60 @@
+import * as core from "@actions/core";
+import * as path from "path";
+
+// How a path changed on both sides since the last sync is resolved (per target `on_conflict`)
+export type ConflictPolicy = "git-wins" | "drive-wins" | "keep-both" | "fail";
+
+export interface SyncConflict {
+  folder_id: string; // Drive folder ID of the target
+  path: string; // Path relative to the target's local_path (= Drive path)
+  drive_id?: string;
+  policy: ConflictPolicy;
+  reason: string; // What changed on each side
+  resolution: string; // What was done about it
+}
+
+// Conflict state (keep state within this module, like the dry-run plan)
+const conflicts: SyncConflict[] = [];
+
+/**
+ * Name of the copy that keeps the Drive version next to the Git version under `keep-both`.
+ * e.g. "report.pdf" -> "report (conflict from Drive).pdf"
+ */
+export function conflict_copy_name(file_name: string): string {
+  const extension = path.extname(file_name);
+  const base_name = extension ? file_name.slice(0, -extension.length) : file_name;
+  return `${base_name} (conflict from Drive)${extension}`;
+}
+
+export function record_conflict(conflict: SyncConflict): void {
+  const log = conflict.policy === "fail" ? core.error : core.warning;
+  log(`[Conflict] '${conflict.path}'${conflict.drive_id ? ` (ID: ${conflict.drive_id})` : ""}: ${conflict.reason}. Policy '${conflict.policy}': ${conflict.resolution}.`);
+  conflicts.push(conflict);
+}
+
+/**
+ * @param folder_id Only return conflicts of this target (all targets if omitted).
+ */
+export function get_conflicts(folder_id?: string): SyncConflict[] {
+  return conflicts.filter(conflict => !folder_id || conflict.folder_id === folder_id);
+}
+
+/**
+ * Adds the conflicts found during this run to the job summary.
+ */
+export async function publish_conflict_summary(): Promise<void> {
+  if (conflicts.length === 0) return;
+  core.summary.addHeading("Sync conflicts", 2);
+  core.summary.addRaw(`${conflicts.length} path(s) changed in both Git and Google Drive since the last sync.`, true);
+  core.summary.addTable([
+    [
+      { data: "Target", header: true },
+      { data: "Path", header: true },
+      { data: "Policy", header: true },
+      { data: "Conflict", header: true },
+      { data: "Resolution", header: true },
+    ],
+    ...conflicts.map(conflict => [conflict.folder_id, conflict.path, conflict.policy, conflict.reason, conflict.resolution]),
+  ]);
+  await core.summary.write();
+}
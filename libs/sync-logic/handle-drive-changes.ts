@@ -3,11 +3,19 @@ import * as path from "path";
 import * as fs from "fs";
 import * as fs_promises from "fs/promises"; // Use promises for fs operations
 import { execute_git } from "../git.js";
+import { compute_file_hashes } from "../local-files/hash.js";
+import { partition_by_include } from "../local-files/ignore.js";
 import { list_local_files } from "../local-files/list.js";
+import { list_drive_tree } from "../google-drive/changes.js";
 import {
-  DriveFileWithPath,
-  list_drive_files_recursively,
-} from "../google-drive/list.js";
+  ExportFormat,
+  ExportFormats,
+  construct_export_file_name,
+  export_drive_file,
+  get_export_format,
+  is_export_file,
+} from "../google-drive/export.js";
+import { DriveFileWithPath } from "../google-drive/list.js";
 import { handle_download_item } from "../google-drive/files.js";
 import { create_pull_request_with_retry } from "../github/pull-requests.js";
 import { octokit } from "../github/auth.js";
@@ -20,18 +28,94 @@ import {
 } from "../google-drive/file_types.js";
 import { DriveItem } from "../google-drive/types.js";
 import { format_pr_body } from "./pretty.js";
+import {
+  ConflictPolicy,
+  conflict_copy_name,
+  get_conflicts,
+  record_conflict,
+} from "./conflicts.js";
+import { is_dry_run, record_planned_operation } from "./plan.js";
+import {
+  classify_sync_change,
+  create_empty_sync_state,
+  create_sync_state_entry,
+  get_sync_state_path,
+  load_sync_state,
+  save_sync_state,
+} from "./state.js";
 // Import Slides fetching and SVG conversion functions
 import { fetch_google_slide_json } from "../google-slides/fetch.js";
+import {
+  export_doc_as_markdown,
+  get_doc_image_markdown_path,
+} from "../google-docs/doc_to_markdown.js";
+import {
+  SheetExportStats,
+  export_sheet_tabs_as_csv,
+} from "../google-sheets/export_csv.js";
 import {
   generate_slide_svg,
   write_svg_file,
 } from "../google-slides/slides_to_svg.js";
+import {
+  generate_slide_markdown,
+  write_slide_markdown_file,
+} from "../google-slides/slides_to_markdown.js";
 
 interface HandleDriveChangesResult {
   pr_number?: number;
   head_branch?: string;
 }
 
+// Helper to convert a path relative to the target's local root into a repo-relative path
+function to_repo_path(local_root: string, relative_path: string): string {
+  const normalized = relative_path.replace(/\\/g, "/");
+  return local_root === "." ? normalized : path.posix.join(local_root, normalized);
+}
+
+// Helper to convert a repo-relative path back into a path relative to the target's local root
+// (the key used by the sync-state manifest)
+function to_target_path(local_root: string, repo_path: string): string {
+  return local_root === "." ? repo_path : path.posix.relative(local_root, repo_path);
+}
+
+// Helper to check whether a repo-relative path lies inside the target's local root
+function is_within_local_root(local_root: string, repo_path: string): boolean {
+  return local_root === "." || repo_path.startsWith(local_root + "/");
+}
+
+// Helper to get the configured export format of a Drive item (see the target's `export` setting).
+// Documents converted from a repo file are not exported: that file already is their content.
+function get_item_export_format(
+  drive_item: DriveItem,
+  export_formats: ExportFormats,
+): ExportFormat | null {
+  if (drive_item.source_hash) return null;
+  return get_export_format(drive_item.mimeType, export_formats);
+}
+
+// Helper to get the path of a presentation's text extract from its SVG preview path
+function get_slides_text_path(svg_path: string): string {
+  return svg_path.replace(/\.export\.svg$/i, ".export.md");
+}
+
+// Helper to get the path of a Drive item's export file, next to its link file
+function get_export_path(
+  drive_path: string,
+  drive_item: DriveItem,
+  export_format: ExportFormat,
+): string {
+  return path.posix.join(
+    path.posix.dirname(drive_path),
+    construct_export_file_name(
+      drive_item.name,
+      drive_item.id,
+      drive_item.mimeType,
+      export_format.format,
+    ),
+  );
+}
+
 // Helper to safely get repo owner and name
 function get_repo_info(): { owner: string; repo: string } {
   const repo_full_name = process.env.GITHUB_REPOSITORY;
@@ -104,10 +188,15 @@ async function determineInitialBranch(repo_info: {
 
 export async function handle_drive_changes(
   folder_id: string,
+  local_root: string,
   trigger_event_name: string,
   git_user_name: string,
   git_user_email: string,
   visual_diff_output_dir: string,
+  ignore_patterns: string[],
+  include_patterns: string[],
+  on_conflict: ConflictPolicy,
+  export_formats: ExportFormats = {},
 ): Promise<HandleDriveChangesResult> {
   core.info(
     `Handling potential incoming changes from Drive folder: ${folder_id} for trigger event: ${trigger_event_name}`,
@@ -156,33 +245,81 @@ export async function handle_drive_changes(
     ).stdout.trim();
     if (!initial_commit_hash)
       throw new Error("Could not get initial commit hash.");
-    await execute_git("checkout", [
-      "-b",
-      original_state_branch,
-      initial_commit_hash,
-    ]);
+    if (is_dry_run()) {
+      // The working tree already is the original state; a dry run must not touch Git
+      core.info("Dry run: skipping temporary state branch creation.");
+    } else {
+      await execute_git("checkout", [
+        "-b",
+        original_state_branch,
+        initial_commit_hash,
+      ]);
+    }
 
     // Step 2: List local files from original state
     core.info("Listing local files from original state branch...");
-    const initial_local_files_list = await list_local_files(".");
+    const initial_local_files_list = await list_local_files(
+      local_root,
+      ignore_patterns,
+      include_patterns,
+    );
+    // Key local files by repo-relative path so they line up with the prefixed Drive paths below
     const initial_local_map = new Map(
       initial_local_files_list.map((f) => [
-        f.relative_path.replace(/\\/g, "/"),
+        to_repo_path(local_root, f.relative_path),
         f,
       ]),
     );
+    // SVG previews for this target live under the output dir, which is outside local_root
+    // when the target maps a subdirectory. Include them so they are compared like the rest.
+    const svg_preview_root = path.join(visual_diff_output_dir, local_root);
+    if (local_root !== "." && fs.existsSync(svg_preview_root)) {
+      const preview_files = await list_local_files(svg_preview_root, []);
+      for (const preview_file of preview_files) {
+        if (/\.export\.(svg|md)$/.test(preview_file.relative_path)) {
+          initial_local_map.set(
+            to_repo_path(svg_preview_root.replace(/\\/g, "/"), preview_file.relative_path),
+            preview_file,
+          );
+        }
+      }
+    }
     core.info(
-      `Found ${initial_local_map.size} relevant local files in original state.`,
+      `Found ${initial_local_map.size} relevant local files in original state (local root: '${local_root}').`,
     );
+    // Last synced state of each path, used to tell local edits from Drive edits
+    const sync_state = await load_sync_state(folder_id);
+    // Repo paths whose local version is kept (only Git changed them, or a conflict kept Git's version)
+    const kept_local_paths = new Set<string>();
+    // Drive versions of conflicting files written next to the local version (on_conflict: keep-both)
+    const conflict_copies = new Map<
+      string,
+      { driveItem: DriveItem; contentPath: string; copyPath: string }
+    >();
+    const preview_dir_prefix = path.posix.normalize(visual_diff_output_dir.replace(/\\/g, "/")) + "/";
 
     // Step 3: List Drive content (Using the modified function)
     core.info("Listing Drive content...");
     let drive_files_with_paths: DriveFileWithPath[];
     let drive_folders: Map<string, DriveItem>;
     try {
-      const drive_data = await list_drive_files_recursively(folder_id);
-      drive_files_with_paths = drive_data.files;
-      drive_folders = drive_data.folders;
+      const drive_data = await list_drive_tree(folder_id);
+      // Drive paths are relative to the Drive folder, which maps onto local_root.
+      // Files outside the include globs are not brought into the repo.
+      const [included_drive_files] = partition_by_include(
+        drive_data.files,
+        include_patterns,
+      );
+      drive_files_with_paths = included_drive_files.map(({ path: drive_path, item }) => ({
+        path: to_repo_path(local_root, drive_path),
+        item,
+      }));
+      drive_folders = new Map(
+        Array.from(drive_data.folders.entries()).map(([folder_path, item]) => [
+          to_repo_path(local_root, folder_path),
+          item,
+        ]),
+      );
       core.info(
         `Found ${drive_files_with_paths.length} files and ${drive_folders.size} folders in Drive.`,
       );
@@ -198,13 +335,18 @@ export async function handle_drive_changes(
     // Map of expected *local* relative paths to the DriveItem causing them
     const expected_local_files = new Map<
       string,
-      { type: "link" | "content" | "svg"; driveItem: DriveItem }
+      {
+        type: "link" | "content" | "svg" | "slides_text" | "export";
+        driveItem: DriveItem;
+      }
     >(); // Added 'svg' type
     // Store DriveItems that require a file system operation (add/update)
     const drive_items_needing_processing = new Map<
       string,
       { driveItem: DriveItem; targetContentPath: string }
     >();
+    // Per-tab export folders (Sheets as CSV): the exporter adds and removes the tab files inside
+    const expected_export_dirs = new Set<string>();
 
     // Populate expected_local_files based on the drive_files_with_paths array
     for (const {
@@ -262,8 +404,17 @@ export async function handle_drive_changes(
           .replace(/\\/g, "/");
       }
 
+      // 4. Determine Expected export path (if an export format is configured for the type)
+      const export_format = is_google_doc
+        ? get_item_export_format(drive_item, export_formats)
+        : null;
+      const expected_export_path = export_format
+        ? get_export_path(drive_path, drive_item, export_format)
+        : null;
+
       // Add expected *local* files to the map
-      if (!is_google_doc) {
+      // (a Google Doc converted from a repo file keeps that file as its content; it is never downloaded)
+      if (!is_google_doc || drive_item.source_hash) {
         // Content file expected for non-Google Docs
         if (expected_local_files.has(expected_content_path)) {
           // This should be rare now unless non-link files somehow clash exactly
@@ -302,6 +453,20 @@ export async function handle_drive_changes(
           type: "svg",
           driveItem: drive_item,
         });
+        // The slide text extract sits next to the SVG preview
+        expected_local_files.set(get_slides_text_path(expected_svg_path), {
+          type: "slides_text",
+          driveItem: drive_item,
+        });
+      }
+      if (expected_export_path) {
+        expected_local_files.set(expected_export_path, {
+          type: "export",
+          driveItem: drive_item,
+        });
+        if (export_format?.exporter === "sheet_tabs") {
+          expected_export_dirs.add(expected_export_path);
+        }
       }
     }
     core.info(
@@ -324,6 +489,7 @@ export async function handle_drive_changes(
         drive_item.mimeType,
       );
       let item_needs_update = false; // Flag if *this specific* drive item triggers an update
+      let keep_local_version = false; // Set when only the local copy changed since the last sync
       let update_reasons: string[] = [];
 
       // A. Check expected content file (if applicable)
@@ -410,6 +576,66 @@ export async function handle_drive_changes(
               }
             }
           }
+          // Use the sync state to avoid overwriting local edits that were not pushed to Drive yet
+          if (needs_update && sync_state) {
+            const change = classify_sync_change(
+              sync_state.files[to_target_path(local_root, expected_content_path)],
+              local_file_info?.git_blob_sha,
+              drive_item,
+              local_file_info?.hash,
+            );
+            if (change === "changed_locally") {
+              needs_update = false;
+              keep_local_version = true;
+              kept_local_paths.add(expected_content_path);
+              core.info(
+                ` -> Keeping local version of '${expected_content_path}': changed locally since the last sync, unchanged in Drive.`,
+              );
+            } else if (change === "changed_in_both") {
+              const conflict_reason = local_file_info
+                ? "Changed both locally and in Drive since the last sync"
+                : "Deleted locally but changed in Drive since the last sync";
+              // keep-both needs a local version to keep; with none left it restores the Drive version
+              const policy =
+                on_conflict === "keep-both" && !local_file_info
+                  ? "drive-wins"
+                  : on_conflict;
+              let resolution: string;
+              if (policy === "drive-wins") {
+                resolution = "Drive version proposed in this PR";
+                reason += " (conflict: also changed locally since the last sync)";
+              } else if (policy === "keep-both") {
+                const copy_path = path.posix.join(
+                  path.posix.dirname(expected_content_path),
+                  conflict_copy_name(path.posix.basename(expected_content_path)),
+                );
+                conflict_copies.set(drive_item.id, {
+                  driveItem: drive_item,
+                  contentPath: expected_content_path,
+                  copyPath: copy_path,
+                });
+                resolution = `Local version kept, Drive version added as '${to_target_path(local_root, copy_path)}'`;
+                needs_update = false;
+                keep_local_version = true;
+              } else {
+                resolution =
+                  policy === "git-wins"
+                    ? "Local version kept"
+                    : "Left unresolved";
+                needs_update = false;
+                keep_local_version = true;
+                kept_local_paths.add(expected_content_path);
+              }
+              record_conflict({
+                folder_id,
+                path: to_target_path(local_root, expected_content_path),
+                drive_id: drive_item.id,
+                policy: on_conflict,
+                reason: conflict_reason,
+                resolution,
+              });
+            }
+          }
           if (needs_update) {
             item_needs_update = true;
             update_reasons.push(
@@ -580,12 +806,60 @@ export async function handle_drive_changes(
           if (needs_update) {
             item_needs_update = true;
             update_reasons.push(`SVG file '${expected_svg_path}': ${reason}`);
+          } else if (
+            !initial_local_map.has(get_slides_text_path(expected_svg_path))
+          ) {
+            item_needs_update = true;
+            update_reasons.push(
+              `Slides text file '${get_slides_text_path(expected_svg_path)}': Missing locally`,
+            );
+          }
+        }
+      }
+
+      // C2. Check expected export file (if applicable). Exports have no hash to compare, so
+      // they follow the link file like the SVG previews.
+      const export_format = is_google_doc
+        ? get_item_export_format(drive_item, export_formats)
+        : null;
+      if (export_format) {
+        const expected_export_path = get_export_path(
+          drive_path,
+          drive_item,
+          export_format,
+        );
+        if (
+          expected_local_files.get(expected_export_path)?.driveItem.id ===
+          drive_item.id
+        ) {
+          let reason = "";
+          const export_exists =
+            export_format.exporter === "sheet_tabs"
+            ? Array.from(initial_local_map.keys()).some((p) =>
+                p.startsWith(expected_export_path + "/"),
+              )
+            : initial_local_map.has(expected_export_path);
+          if (!export_exists) {
+            reason = "Export file missing locally";
+          } else if (update_reasons.some((r) => r.startsWith("Link file "))) {
+            reason = "Export update triggered by corresponding link file change";
+          }
+          if (reason) {
+            item_needs_update = true;
+            update_reasons.push(
+              `Export file '${expected_export_path}': ${reason}`,
+            );
           }
         }
       }
 
       // D. Add to processing list if *this* Drive item triggered an update
-      if (item_needs_update) {
+      // (the local content wins when it is the only side that changed; its link file follows on the next push)
+      if (item_needs_update && keep_local_version) {
+        core.debug(
+          ` -> Ignoring link/SVG changes for '${drive_path}' because its local version is kept.`,
+        );
+      } else if (item_needs_update) {
         core.info(
           ` -> Change detected for Drive item: ${drive_item.name} (ID: ${drive_item.id}, Path: ${drive_path}). Reasons: ${update_reasons.join("; ")}`,
         );
@@ -607,9 +881,61 @@ export async function handle_drive_changes(
     }
 
     // Files to Delete: Iterate initial local files and check if they are in the expected set
-    for (const [local_path, _local_file_info] of initial_local_map) {
+    for (const [local_path, local_file_info] of initial_local_map) {
       // Check if *any* Drive item resulted in this local path being expected
       if (!expected_local_files.has(local_path)) {
+        if (
+          expected_export_dirs.has(path.dirname(local_path).replace(/\\/g, "/"))
+        ) {
+          continue; // Tab CSVs are refreshed (or removed) by the exporter
+        }
+        const doc_markdown_path = get_doc_image_markdown_path(local_path);
+        if (
+          doc_markdown_path &&
+          expected_local_files.get(doc_markdown_path)?.type === "export"
+        ) {
+          continue; // Images of a Markdown export are refreshed (or removed) with it
+        }
+        // With a sync state, only delete content files that were synced before and not edited since.
+        // Link files, exports and previews are generated, so they follow Drive as before.
+        if (
+          sync_state &&
+          is_within_local_root(local_root, local_path) &&
+          !local_path.endsWith(".gdrive.json") &&
+          !is_export_file(local_path) &&
+          !local_path.startsWith(preview_dir_prefix)
+        ) {
+          const change = classify_sync_change(
+            sync_state.files[to_target_path(local_root, local_path)],
+            local_file_info.git_blob_sha,
+            undefined,
+          );
+          if (change === "unknown") {
+            core.info(
+              ` -> Keeping local file not synced to Drive yet: ${local_path}`,
+            );
+            kept_local_paths.add(local_path);
+            continue;
+          }
+          if (change === "changed_in_both") {
+            const delete_local = on_conflict === "drive-wins";
+            record_conflict({
+              folder_id,
+              path: to_target_path(local_root, local_path),
+              policy: on_conflict,
+              reason: "Removed from Drive but changed locally since the last sync",
+              resolution: delete_local
+                ? "Removal proposed in this PR"
+                : on_conflict === "fail"
+                  ? "Left unresolved"
+                  : "Local file kept",
+            });
+            if (!delete_local) {
+              kept_local_paths.add(local_path);
+              continue;
+            }
+          }
+        }
         local_paths_identified_for_deletion.add(local_path);
         core.info(` -> Deletion identified for local path: ${local_path}`);
       }
@@ -627,15 +953,19 @@ export async function handle_drive_changes(
     // Get all unique directory paths from the expected local map
     const expected_local_dirs = new Set<string>();
     expected_local_files.forEach((_, expected_path) => {
-      // Use the expected_local_files map
-      let dir = path.dirname(expected_path);
+      // Use the expected_local_files map (per-tab export paths are folders themselves)
+      let dir = expected_export_dirs.has(expected_path)
+        ? expected_path
+        : path.dirname(expected_path);
       while (dir && dir !== ".") {
         expected_local_dirs.add(dir);
         dir = path.dirname(dir);
       }
     });
     // Find dirs present initially but not expected anymore
+    // (never the local root itself, its parents, or preview dirs outside it)
     for (const initial_dir of initial_local_dirs) {
+      if (!is_within_local_root(local_root, initial_dir)) continue;
       if (!expected_local_dirs.has(initial_dir)) {
         let parent_deleted = false;
         for (const deleted_path of local_paths_identified_for_deletion) {
@@ -645,7 +975,10 @@ export async function handle_drive_changes(
           }
         }
         const drive_folder_exists = drive_folders.has(initial_dir);
-        if (!parent_deleted && !drive_folder_exists) {
+        const holds_kept_files = Array.from(kept_local_paths).some((p) =>
+          p.startsWith(initial_dir + "/"),
+        );
+        if (!parent_deleted && !drive_folder_exists && !holds_kept_files) {
           core.info(
             ` -> Deletion identified for potentially empty local directory: ${initial_dir}`,
           );
@@ -662,6 +995,43 @@ export async function handle_drive_changes(
     );
     core.endGroup();
 
+    if (is_dry_run()) {
+      for (const local_path of Array.from(
+        local_paths_identified_for_deletion,
+      ).sort((a, b) => a.localeCompare(b))) {
+        record_planned_operation({
+          type: "delete_local",
+          folder_id,
+          path: local_path,
+        });
+      }
+      for (const {
+        driveItem,
+        targetContentPath,
+      } of drive_items_needing_processing.values()) {
+        record_planned_operation({
+          type: "download",
+          folder_id,
+          path: targetContentPath,
+          drive_id: driveItem.id,
+          detail: driveItem.mimeType,
+        });
+      }
+      for (const { driveItem, copyPath } of conflict_copies.values()) {
+        record_planned_operation({
+          type: "download",
+          folder_id,
+          path: copyPath,
+          drive_id: driveItem.id,
+          detail: "Drive version of a conflicting file",
+        });
+      }
+      core.info(
+        "Dry run: skipping file system changes, commit, push and PR creation.",
+      );
+      return result;
+    }
+
     // --- Step 5: Apply File System Changes ---
     core.startGroup("Applying File System Changes");
     let changes_applied = false;
@@ -702,90 +1072,210 @@ export async function handle_drive_changes(
       }
     }
     // 5b. Apply Additions/Updates
+    const processed_drive_ids = new Set<string>(); // Drive items fully written locally
+    const sheet_export_stats: SheetExportStats[] = []; // Row changes per tab, for the PR body
     if (drive_items_needing_processing.size > 0) {
       core.info(
         `Applying ${drive_items_needing_processing.size} additions/updates...`,
       );
-      for (const {
-        driveItem,
-        targetContentPath,
-      } of drive_items_needing_processing.values()) {
-        core.info(
-          `   - Processing Drive item: ${driveItem.name || `(ID: ${driveItem.id})`} -> Target local content path: ${targetContentPath}`,
-        );
-        try {
-          await handle_download_item(driveItem, targetContentPath);
-          changes_applied = true; // Assume change if download attempted
-
-          // *** NEW: SVG Generation for Google Slides ***
-          if (
-            driveItem.mimeType === "application/vnd.google-apps.presentation"
-          ) {
+      // Downloads run concurrently; their Drive/Slides calls are bounded by the Drive pool
+      await Promise.all(
+        Array.from(drive_items_needing_processing.values()).map(
+          async ({ driveItem, targetContentPath }) => {
             core.info(
-              `   -> Item is Google Slides. Attempting SVG generation...`,
-            );
-            // 1. Fetch Slides JSON content using the specific function and auth client
-            const presentation_json = await fetch_google_slide_json(
-              driveAuthClient,
-              driveItem.id,
+              `   - Processing Drive item: ${driveItem.name || `(ID: ${driveItem.id})`} -> Target local content path: ${targetContentPath}`,
             );
-            if (presentation_json) {
-              // 2. Convert JSON to SVG
-              const svg_string = await generate_slide_svg(presentation_json);
-              if (svg_string) {
-                // 3. Determine SVG output path
-                //    targetContentPath is like "SubDir/MyPresentation" (no extension, from Drive structure)
-                const base_name = driveItem.name; // "MyPresentation"
-                const link_file_base_name = construct_link_file_name(
-                  base_name,
+            try {
+              await handle_download_item(driveItem, targetContentPath);
+              changes_applied = true; // Assume change if download attempted
+
+              // Export the content of Google Workspace files (per the target's `export` formats)
+              const export_format = GOOGLE_DOC_MIME_TYPES.includes(
+                driveItem.mimeType,
+              )
+                ? get_item_export_format(driveItem, export_formats)
+                : null;
+              if (export_format?.exporter === "sheet_tabs") {
+                sheet_export_stats.push(
+                  await export_sheet_tabs_as_csv(
+                    driveAuthClient,
+                    driveItem,
+                    get_export_path(targetContentPath, driveItem, export_format),
+                  ),
+                );
+              } else if (export_format?.exporter === "doc_markdown") {
+                await export_doc_as_markdown(
+                  driveAuthClient,
+                  driveItem,
+                  get_export_path(targetContentPath, driveItem, export_format),
+                );
+              } else if (export_format) {
+                await export_drive_file(
+                  driveItem,
+                  export_format,
+                  get_export_path(targetContentPath, driveItem, export_format),
+                );
+              }
+
+              // *** NEW: SVG Generation for Google Slides ***
+              if (
+                driveItem.mimeType === "application/vnd.google-apps.presentation"
+              ) {
+                core.info(
+                  `   -> Item is Google Slides. Attempting SVG generation...`,
+                );
+                // 1. Fetch Slides JSON content using the specific function and auth client
+                const presentation_json = await fetch_google_slide_json(
+                  driveAuthClient,
                   driveItem.id,
-                  driveItem.mimeType,
-                ); // "MyPresentation_id.gslides.gdrive.json"
-                const svg_file_base_name = link_file_base_name.replace(
-                  /\.gdrive\.json$/i,
-                  ".export.svg",
-                ); // "MyPresentation_id.gslides.export.svg"
-
-                // Get the directory of the original item, relative to the sync root (e.g., "SubDir" or ".")
-                const relative_item_dir = path.dirname(targetContentPath);
-
-                // Construct the final path within the visual_diff_output_dir folder
-                // If relative_item_dir is ".", path.join will correctly place svg_file_base_name directly under visual_diff_output_dir
-                const output_svg_path = path
-                  .join(
-                    visual_diff_output_dir,
-                    relative_item_dir,
-                    svg_file_base_name,
-                  )
-                  .replace(/\\/g, "/");
-
-                // 4. Ensure directory exists and Write SVG file
-                const output_svg_dir = path.dirname(output_svg_path);
-                await fs_promises.mkdir(output_svg_dir, { recursive: true }); // Ensures _diff_ and any subdirectories are created
-
-                const write_success = await write_svg_file(
-                  svg_string,
-                  output_svg_path,
                 );
-                if (write_success) {
-                  core.info(
-                    `   -> Successfully generated and saved SVG for ${driveItem.name} at ${output_svg_path}`,
+                if (presentation_json) {
+                  // Slide titles, text, tables and speaker notes as Markdown, next to the SVG
+                  const output_markdown_path = get_slides_text_path(
+                    path
+                      .join(
+                        visual_diff_output_dir,
+                        path.dirname(targetContentPath),
+                        construct_link_file_name(
+                          driveItem.name,
+                          driveItem.id,
+                          driveItem.mimeType,
+                        ).replace(/\.gdrive\.json$/i, ".export.svg"),
+                      )
+                      .replace(/\\/g, "/"),
                   );
-                  // Ensure change is tracked even if only SVG was generated/updated
-                  changes_applied = true;
-                  // Note: The SVG file will be picked up by the `git add .` later.
+                  if (
+                    await write_slide_markdown_file(
+                      generate_slide_markdown(presentation_json),
+                      output_markdown_path,
+                    )
+                  ) {
+                    changes_applied = true;
+                  }
+                  // 2. Convert JSON to SVG
+                  const svg_string = await generate_slide_svg(presentation_json);
+                  if (svg_string) {
+                    // 3. Determine SVG output path
+                    //    targetContentPath is like "SubDir/MyPresentation" (no extension, from Drive structure)
+                    const base_name = driveItem.name; // "MyPresentation"
+                    const link_file_base_name = construct_link_file_name(
+                      base_name,
+                      driveItem.id,
+                      driveItem.mimeType,
+                    ); // "MyPresentation_id.gslides.gdrive.json"
+                    const svg_file_base_name = link_file_base_name.replace(
+                      /\.gdrive\.json$/i,
+                      ".export.svg",
+                    ); // "MyPresentation_id.gslides.export.svg"
+
+                    // Get the directory of the original item, relative to the sync root (e.g., "SubDir" or ".")
+                    const relative_item_dir = path.dirname(targetContentPath);
+
+                    // Construct the final path within the visual_diff_output_dir folder
+                    // If relative_item_dir is ".", path.join will correctly place svg_file_base_name directly under visual_diff_output_dir
+                    const output_svg_path = path
+                      .join(
+                        visual_diff_output_dir,
+                        relative_item_dir,
+                        svg_file_base_name,
+                      )
+                      .replace(/\\/g, "/");
+
+                    // 4. Ensure directory exists and Write SVG file
+                    const output_svg_dir = path.dirname(output_svg_path);
+                    await fs_promises.mkdir(output_svg_dir, { recursive: true }); // Ensures _diff_ and any subdirectories are created
+
+                    const write_success = await write_svg_file(
+                      svg_string,
+                      output_svg_path,
+                    );
+                    if (write_success) {
+                      core.info(
+                        `   -> Successfully generated and saved SVG for ${driveItem.name} at ${output_svg_path}`,
+                      );
+                      // Ensure change is tracked even if only SVG was generated/updated
+                      changes_applied = true;
+                      // Note: The SVG file will be picked up by the `git add .` later.
+                    }
+                  }
                 }
               }
+              // *** END: SVG Generation ***
+              processed_drive_ids.add(driveItem.id);
+            } catch (error) {
+              core.error(
+                `   - Failed to process item from Drive ${driveItem.name || `(ID: ${driveItem.id})`} to ${targetContentPath}: ${(error as Error).message}`,
+              );
             }
-          }
-          // *** END: SVG Generation ***
-        } catch (error) {
-          core.error(
-            `   - Failed to process item from Drive ${driveItem.name || `(ID: ${driveItem.id})`} to ${targetContentPath}: ${(error as Error).message}`,
+          },
+        ),
+      );
+    }
+    // 5c. Write the Drive version of conflicting files next to the kept local version
+    await Promise.all(
+      Array.from(conflict_copies).map(
+        async ([drive_id, { driveItem, contentPath, copyPath }]) => {
+          core.info(
+            `   - Writing Drive version of conflicting file ${driveItem.name} (ID: ${drive_id}) to ${copyPath}`,
           );
-        }
+          try {
+            await handle_download_item(driveItem, copyPath);
+            changes_applied = true;
+          } catch (error) {
+            core.error(
+              `   - Failed to write conflict copy ${copyPath}: ${(error as Error).message}`,
+            );
+            // Keep the previous sync state so the conflict is detected again next run
+            kept_local_paths.add(contentPath);
+          }
+        },
+      ),
+    );
+
+    // 5d. Record the state the PR leaves behind in the sync-state manifest
+    const next_sync_state = sync_state
+      ? { ...sync_state, files: { ...sync_state.files } }
+      : create_empty_sync_state(folder_id);
+    const drive_target_paths = new Set<string>();
+    for (const { path: drive_path, item: drive_item } of drive_files_with_paths) {
+      const target_path = to_target_path(local_root, drive_path);
+      drive_target_paths.add(target_path);
+      // Keep the previous entry when the local version was kept or the download failed
+      if (kept_local_paths.has(drive_path)) continue;
+      if (
+        drive_items_needing_processing.has(drive_item.id) &&
+        !processed_drive_ids.has(drive_item.id)
+      ) {
+        continue;
+      }
+      let git_blob_sha: string | undefined;
+      if (drive_item.source_hash) {
+        git_blob_sha = initial_local_map.get(drive_path)?.git_blob_sha; // Source of a converted doc
+      } else if (!GOOGLE_DOC_MIME_TYPES.includes(drive_item.mimeType)) {
+        git_blob_sha = processed_drive_ids.has(drive_item.id)
+          ? (await compute_file_hashes(drive_path).catch(() => null))?.git_blob_sha
+          : initial_local_map.get(drive_path)?.git_blob_sha;
+        if (!git_blob_sha) continue; // No local content to record
+      }
+      next_sync_state.files[target_path] = create_sync_state_entry(
+        drive_item,
+        git_blob_sha,
+      );
+    }
+    // Drop entries for paths that are gone from Drive, unless the local file is kept
+    for (const target_path of Object.keys(next_sync_state.files)) {
+      const repo_path = to_repo_path(local_root, target_path);
+      if (!drive_target_paths.has(target_path) && !kept_local_paths.has(repo_path)) {
+        delete next_sync_state.files[target_path];
       }
     }
+    try {
+      await save_sync_state(next_sync_state);
+    } catch (error) {
+      core.warning(
+        `Failed to write sync state: ${(error as Error).message}`,
+      );
+    }
     core.endGroup();
 
     // --- Step 6: Stage, Commit, Push, and Create PR ---
@@ -816,16 +1306,34 @@ export async function handle_drive_changes(
       "user.name",
       git_user_name || "github-actions[bot]",
     ]);
-    core.info("Staging all detected changes...");
-    await execute_git("add", ["."]);
-    await execute_git("add", ["-u"]);
+    // Only stage the target's subtree, its previews and its sync state, never unrelated parts of the repo.
+    // Paths that are gone but still tracked are kept, so removing all of them is staged too.
+    const staging_pathspecs: string[] = [];
+    for (const p of [local_root, svg_preview_root, get_sync_state_path(folder_id)]) {
+      const tracked = await execute_git("ls-files", ["--", p], { silent: true, ignoreReturnCode: true });
+      if (fs.existsSync(p) || tracked.stdout.trim()) staging_pathspecs.push(p);
+    }
+    if (staging_pathspecs.length === 0) {
+      // An empty pathspec would stage (and report) the whole worktree
+      core.info("Nothing to stage: the target's paths neither exist nor are tracked. No commit or PR needed.");
+      core.endGroup();
+      return result;
+    }
+    core.info(
+      `Staging all detected changes in: ${staging_pathspecs.join(", ")}...`,
+    );
+    await execute_git("add", ["-A", "--", ...staging_pathspecs]);
 
     // *** ADDED DEBUGGING ***
     core.info("Checking Git status *after* staging:");
     await execute_git("status", [], { silent: false }); // Display full status
     // *** END ADDED DEBUGGING ***
 
-    const status_result = await execute_git("status", ["--porcelain"]);
+    const status_result = await execute_git("status", [
+      "--porcelain",
+      "--",
+      ...staging_pathspecs,
+    ]);
 
     // Log status output regardless of whether it's empty, for debugging
     core.debug("Git status --porcelain output:\n" + status_result.stdout);
@@ -858,6 +1366,14 @@ export async function handle_drive_changes(
         `- Remove (local paths): ${removed_display_paths.map((p) => `'${p}'`).join(", ")}`,
       );
 
+    const conflict_display_paths = get_conflicts(folder_id)
+      .map((conflict) => `${conflict.path} (${conflict.policy})`)
+      .sort((a, b) => a.localeCompare(b));
+    if (conflict_display_paths.length > 0)
+      commit_detail_lines.push(
+        `- Conflicts: ${conflict_display_paths.map((p) => `'${p}'`).join(", ")}`,
+      );
+
     // Removed addition of duplicate info to commit message
 
     const commit_message = [
@@ -946,6 +1462,8 @@ export async function handle_drive_changes(
         run_id,
         drive_items_for_pr_body, // Added/Updated items
         local_paths_identified_for_deletion, // Removed paths
+        get_conflicts(folder_id), // Conflicts found in this run
+        sheet_export_stats, // Row changes of Sheets exported as CSV
       );
 
       const pr_params = {
@@ -984,55 +1502,60 @@ export async function handle_drive_changes(
     );
     result = {};
   } finally {
-    core.startGroup(`Cleaning up Git State`);
-    core.info(
-      `Cleaning up temporary branch '${original_state_branch}' and returning to '${initial_branch}'`,
-    );
-    try {
-      const current_cleanup_branch_result = await execute_git(
-        "rev-parse",
-        ["--abbrev-ref", "HEAD"],
-        { silent: true, ignoreReturnCode: true },
+    if (is_dry_run()) {
+      // Nothing was checked out or branched, and a dry run must not touch the working tree
+      core.info("Dry run: skipping Git state cleanup.");
+    } else {
+      core.startGroup(`Cleaning up Git State`);
+      core.info(
+        `Cleaning up temporary branch '${original_state_branch}' and returning to '${initial_branch}'`,
       );
-      const current_cleanup_branch =
-        current_cleanup_branch_result.stdout.trim();
-
-      if (current_cleanup_branch !== initial_branch && initial_branch) {
-        core.info(
-          `Currently on branch '${current_cleanup_branch || "detached HEAD"}', checking out initial branch '${initial_branch}'...`,
-        );
-        await execute_git("checkout", ["--force", initial_branch]);
-      } else if (current_cleanup_branch === initial_branch) {
-        core.info(`Already on initial branch '${initial_branch}'.`);
-      } else {
-        core.warning(
-          `Could not determine initial branch for cleanup checkout. Staying on '${current_cleanup_branch || "detached HEAD"}'`,
+      try {
+        const current_cleanup_branch_result = await execute_git(
+          "rev-parse",
+          ["--abbrev-ref", "HEAD"],
+          { silent: true, ignoreReturnCode: true },
         );
-      }
+        const current_cleanup_branch =
+          current_cleanup_branch_result.stdout.trim();
 
-      if (original_state_branch) {
-        const branch_check = await execute_git(
-          "show-ref",
-          ["--verify", `refs/heads/${original_state_branch}`],
-          { ignoreReturnCode: true, silent: true },
-        );
-        if (branch_check.exitCode === 0) {
+        if (current_cleanup_branch !== initial_branch && initial_branch) {
           core.info(
-            `Deleting temporary state branch '${original_state_branch}'...`,
+            `Currently on branch '${current_cleanup_branch || "detached HEAD"}', checking out initial branch '${initial_branch}'...`,
           );
-          await execute_git("branch", ["-D", original_state_branch]);
+          await execute_git("checkout", ["--force", initial_branch]);
+        } else if (current_cleanup_branch === initial_branch) {
+          core.info(`Already on initial branch '${initial_branch}'.`);
         } else {
-          core.debug(
-            `Temporary state branch '${original_state_branch}' not found for deletion.`,
+          core.warning(
+            `Could not determine initial branch for cleanup checkout. Staying on '${current_cleanup_branch || "detached HEAD"}'`,
+          );
+        }
+
+        if (original_state_branch) {
+          const branch_check = await execute_git(
+            "show-ref",
+            ["--verify", `refs/heads/${original_state_branch}`],
+            { ignoreReturnCode: true, silent: true },
           );
+          if (branch_check.exitCode === 0) {
+            core.info(
+              `Deleting temporary state branch '${original_state_branch}'...`,
+            );
+            await execute_git("branch", ["-D", original_state_branch]);
+          } else {
+            core.debug(
+              `Temporary state branch '${original_state_branch}' not found for deletion.`,
+            );
+          }
         }
+      } catch (checkoutError) {
+        core.warning(
+          `Failed to fully clean up Git state. Manual cleanup may be needed. Error: ${(checkoutError as Error).message}`,
+        );
+      } finally {
+        core.endGroup(); // End Cleanup group
       }
-    } catch (checkoutError) {
-      core.warning(
-        `Failed to fully clean up Git state. Manual cleanup may be needed. Error: ${(checkoutError as Error).message}`,
-      );
-    } finally {
-      core.endGroup(); // End Cleanup group
     }
   }
   return result;
@@ -0,0 +1,101 @@
+import * as core from "@actions/core";
+import * as path from "path";
+import { DriveItem } from "../google-drive/types.js";
+import { FileInfo } from "../types.js";
+import { SyncState } from "./state.js";
+
+export interface FileMove {
+  from_path: string; // Drive path the file is at now (gone locally)
+  to_path: string; // Local path the file moved to (not in Drive yet)
+  drive_item: DriveItem;
+  matched_by: "drive_id" | "content_hash";
+}
+
+/**
+ * Picks the one candidate a new path most likely came from: the only candidate, or else the
+ * only one with the same file name (a move between folders). Ambiguous matches return null.
+ */
+function pick_unique<T>(candidates: T[], to_path: string, get_path: (candidate: T) => string): T | null {
+  if (candidates.length === 1) return candidates[0];
+  const same_name = candidates.filter(candidate => path.basename(get_path(candidate)) === path.basename(to_path));
+  return same_name.length === 1 ? same_name[0] : null;
+}
+
+/**
+ * Finds files that were moved or renamed in Git, so the existing Drive file can be moved
+ * instead of uploading a new one and leaving the old one untracked (which would lose its
+ * comments, revision history and links).
+ * A local path without a Drive file is paired with a Drive file whose path is gone locally:
+ * 1. By Drive ID: a link file now points to the Drive file from another folder, or the sync
+ *    state recorded the Drive file with the same Git content at its old path.
+ * 2. By content hash: the local MD5 equals the Drive file's md5Checksum (or the source hash
+ *    of a converted Google Doc).
+ * Every path is used at most once, and ambiguous matches are left alone (upload as before).
+ * @param local_files Local content files by relative path (link and .gdrive.json files excluded).
+ * @param drive_files Drive files by relative path.
+ * @param link_drive_ids Drive paths described by local link files, with the Drive ID they point to.
+ */
+export function detect_file_moves(
+  local_files: Map<string, FileInfo>,
+  drive_files: Map<string, DriveItem>,
+  link_drive_ids: Map<string, string>,
+  sync_state: SyncState | null
+): FileMove[] {
+  const vacated = new Map<string, DriveItem>(); // Drive files whose path is gone locally
+  for (const [drive_path, item] of drive_files) {
+    if (!local_files.has(drive_path) && !link_drive_ids.has(drive_path)) vacated.set(drive_path, item);
+  }
+  if (vacated.size === 0) return [];
+
+  const moves: FileMove[] = [];
+  const add_move = (from_path: string, to_path: string, matched_by: FileMove["matched_by"]) => {
+    const drive_item = vacated.get(from_path)!;
+    vacated.delete(from_path);
+    moves.push({ from_path, to_path, drive_item, matched_by });
+    core.info(`Detected move of '${from_path}' to '${to_path}' (matched by ${matched_by === "drive_id" ? "Drive ID" : "content hash"}).`);
+  };
+
+  // 1a. Link files (Google Docs types): the Drive ID is known for the new path
+  for (const [to_path, drive_id] of link_drive_ids) {
+    if (drive_files.has(to_path)) continue;
+    const from_path = Array.from(vacated.keys()).find(p => vacated.get(p)!.id === drive_id);
+    if (from_path) add_move(from_path, to_path, "drive_id");
+  }
+
+  // 1b. Sync state: the old path was last synced with the same Git content as the new path
+  const new_local_files = Array.from(local_files.values()).filter(file => !drive_files.has(file.relative_path));
+  const unmatched_local_files: FileInfo[] = [];
+  for (const local_file of new_local_files) {
+    const candidates = Array.from(vacated.keys()).filter(from_path => {
+      const entry = sync_state?.files[from_path];
+      return entry?.git_blob_sha === local_file.git_blob_sha && entry.drive_id === vacated.get(from_path)!.id;
+    });
+    const from_path = pick_unique(candidates, local_file.relative_path, p => p);
+    if (from_path) {
+      add_move(from_path, local_file.relative_path, "drive_id");
+    } else {
+      unmatched_local_files.push(local_file);
+    }
+  }
+
+  // 2. Content hash: only pair files whose content is unique on both sides (after the name tie-break)
+  for (const local_file of unmatched_local_files) {
+    // Converted Google Docs are matched by the hash of the file they were converted from
+    const candidates = Array.from(vacated.keys()).filter(from_path => {
+      const item = vacated.get(from_path)!;
+      return (item.hash ?? item.source_hash) === local_file.hash;
+    });
+    const from_path = pick_unique(candidates, local_file.relative_path, p => p);
+    if (!from_path) {
+      if (candidates.length > 1) core.debug(`Not treating '${local_file.relative_path}' as a move: ${candidates.length} Drive files have the same content.`);
+      continue;
+    }
+    const rivals = unmatched_local_files.filter(other => other.hash === local_file.hash);
+    if (pick_unique(rivals, from_path, other => other.relative_path) !== local_file) {
+      core.debug(`Not treating '${local_file.relative_path}' as a move of '${from_path}': other new local files have the same content.`);
+      continue;
+    }
+    add_move(from_path, local_file.relative_path, "content_hash");
+  }
+  return moves;
+}
@@ -0,0 +1,120 @@
+import * as core from "@actions/core";
+import { DefaultArtifactClient } from "@actions/artifact";
+import * as fs_promises from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+
+export type PlannedOperationType =
+  | "create_folder"
+  | "create"
+  | "update"
+  | "rename"
+  | "move"
+  | "trash"
+  | "request_ownership"
+  | "delete_local"
+  | "download";
+
+export interface PlannedOperation {
+  type: PlannedOperationType;
+  folder_id: string; // Drive folder ID of the target the operation belongs to
+  path: string; // Relative path (Drive path for Drive operations, repo path for local ones)
+  drive_id?: string;
+  detail?: string; // Human readable reason or extra info (e.g. new name, owner email)
+}
+
+// Plan state (keep state within this module, like ownership transfer tracking)
+let dry_run_enabled = false;
+const planned_operations: PlannedOperation[] = [];
+
+const OPERATION_LABELS: Record<PlannedOperationType, string> = {
+  create_folder: "Create Drive folder",
+  create: "Upload new file to Drive",
+  update: "Update Drive file content",
+  rename: "Rename Drive item",
+  move: "Move Drive item (moved or renamed in Git)",
+  trash: "Move Drive item to Trash",
+  request_ownership: "Request ownership transfer",
+  delete_local: "Delete local path (PR)",
+  download: "Add/update local file from Drive (PR)",
+};
+
+export function set_dry_run(enabled: boolean): void {
+  dry_run_enabled = enabled;
+}
+
+export function is_dry_run(): boolean {
+  return dry_run_enabled;
+}
+
+/**
+ * Records an operation that would have been performed. Only used in dry-run mode.
+ */
+export function record_planned_operation(operation: PlannedOperation): void {
+  core.info(`[Dry Run] ${OPERATION_LABELS[operation.type]}: ${operation.path}${operation.detail ? ` (${operation.detail})` : ""}`);
+  planned_operations.push(operation);
+}
+
+export function get_planned_operations(): PlannedOperation[] {
+  return [...planned_operations];
+}
+
+/**
+ * Writes the collected plan as a job summary and uploads it as a JSON artifact.
+ * @returns Path of the written plan JSON file.
+ */
+export async function publish_plan(artifact_name = "sync-plan"): Promise<string> {
+  const operations = get_planned_operations();
+  const counts = Object.fromEntries(
+    (Object.keys(OPERATION_LABELS) as PlannedOperationType[]).map(type => [
+      type,
+      operations.filter(op => op.type === type).length,
+    ])
+  );
+
+  // --- JSON artifact ---
+  const plan_dir = await fs_promises.mkdtemp(path.join(process.env.RUNNER_TEMP || os.tmpdir(), "sync-plan-"));
+  const plan_path = path.join(plan_dir, `${artifact_name}.json`);
+  await fs_promises.writeFile(
+    plan_path,
+    JSON.stringify({ generated_at: new Date().toISOString(), counts, operations }, null, 2)
+  );
+  core.info(`Wrote dry-run plan with ${operations.length} operation(s) to ${plan_path}`);
+  try {
+    const artifact_client = new DefaultArtifactClient();
+    const upload = await artifact_client.uploadArtifact(artifact_name, [plan_path], plan_dir);
+    core.info(`Uploaded dry-run plan as artifact '${artifact_name}' (ID: ${upload.id ?? "unknown"})`);
+  } catch (error) {
+    // Artifacts are unavailable outside GitHub-hosted runs; the summary still has the plan
+    core.warning(`Failed to upload dry-run plan artifact: ${(error as Error).message}`);
+  }
+
+  // --- Job summary ---
+  core.summary.addHeading("Sync dry run plan", 2);
+  core.summary.addRaw(`No changes were made to Google Drive or Git. ${operations.length} operation(s) planned.`, true);
+  core.summary.addTable([
+    [{ data: "Operation", header: true }, { data: "Count", header: true }],
+    ...(Object.keys(OPERATION_LABELS) as PlannedOperationType[])
+      .filter(type => counts[type] > 0)
+      .map(type => [OPERATION_LABELS[type], String(counts[type])]),
+  ]);
+  if (operations.length > 0) {
+    core.summary.addTable([
+      [
+        { data: "Target", header: true },
+        { data: "Operation", header: true },
+        { data: "Path", header: true },
+        { data: "Details", header: true },
+      ],
+      ...operations.map(op => [
+        op.folder_id,
+        OPERATION_LABELS[op.type],
+        op.path,
+        [op.drive_id ? `ID: ${op.drive_id}` : "", op.detail || ""].filter(Boolean).join(" – "),
+      ]),
+    ]);
+  }
+  await core.summary.write();
+
+  return plan_path;
+}
@@ -1,5 +1,7 @@
 import { MIME_TYPE_TO_EXTENSION } from "../google-drive/file_types.js";
 import { DriveItem } from "../google-drive/types.js"; // Import DriveItem type
+import { SheetExportStats } from "../google-sheets/export_csv.js";
+import { SyncConflict } from "./conflicts.js";
 
 /**
  * Gets a safe, short label representing the MIME type, suitable for display.
@@ -44,7 +46,9 @@ export function format_pr_body(
   folder_id: string,
   run_id: string,
   added_updated_drive_items: DriveItem[],
-  removed_local_paths: Set<string>
+  removed_local_paths: Set<string>,
+  conflicts: SyncConflict[] = [],
+  sheet_stats: SheetExportStats[] = []
 ): string {
   const pr_body_lines: string[] = [
     `This PR syncs changes detected in Google Drive folder [${folder_id}](https://drive.google.com/drive/folders/${folder_id}).`,
@@ -77,6 +81,33 @@ export function format_pr_body(
     });
   }
 
+  // Sort conflicts alphabetically by path
+  const sorted_conflicts = [...conflicts].sort((a, b) => a.path.localeCompare(b.path));
+
+  if (sorted_conflicts.length > 0) {
+    pr_body_lines.push(''); // Add blank line
+    pr_body_lines.push('**Conflicts (Changed in Both Git and Drive Since the Last Sync):**');
+    sorted_conflicts.forEach(conflict => {
+      pr_body_lines.push(`*   \`${conflict.path}\` (\`${conflict.policy}\`): ${conflict.reason}. ${conflict.resolution}.`);
+    });
+  }
+
+  // Row changes of Sheets exported as one CSV per tab (unchanged tabs are left out)
+  const changed_tabs = [...sheet_stats]
+    .sort((a, b) => a.spreadsheet_name.localeCompare(b.spreadsheet_name))
+    .flatMap(sheet => sheet.tabs.filter(tab => tab.status !== "unchanged").map(tab => ({ sheet, tab })));
+
+  if (changed_tabs.length > 0) {
+    pr_body_lines.push(''); // Add blank line
+    pr_body_lines.push('**Spreadsheet Changes (Rows per Tab):**');
+    pr_body_lines.push('| Spreadsheet | Tab | Added | Removed | Changed |');
+    pr_body_lines.push('| --- | --- | ---: | ---: | ---: |');
+    changed_tabs.forEach(({ sheet, tab }) => {
+      const tab_display = tab.status === "updated" ? `\`${tab.tab}\`` : `\`${tab.tab}\` (${tab.status})`;
+      pr_body_lines.push(`| ${sheet.spreadsheet_name.replace(/\|/g, '\\|')} | ${tab_display.replace(/\|/g, '\\|')} | ${tab.rows_added} | ${tab.rows_removed} | ${tab.rows_changed} |`);
+    });
+  }
+
   pr_body_lines.push(''); // Add blank line
   pr_body_lines.push(`*Source Drive Folder ID: \`${folder_id}\`*`);
 
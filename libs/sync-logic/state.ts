@@ -0,0 +1,198 @@
+import * as core from "@actions/core";
+import * as fs_promises from "fs/promises";
+import * as path from "path";
+import { execute_git } from "../git.js";
+import { DriveItem } from "../google-drive/types.js";
+
+// Directory (relative to the repo root) holding one committed manifest per target.
+// It is never synced itself (see always_ignored_matcher in libs/local-files/ignore.ts).
+export const SYNC_STATE_DIR = ".sync-state";
+const SYNC_STATE_VERSION = 1;
+
+/**
+ * What both sides looked like after the last successful sync of one path.
+ */
+export interface SyncStateEntry {
+  drive_id: string;
+  md5?: string; // Drive md5Checksum (absent for Google Docs types)
+  modified_time: string; // Drive modifiedTime (RFC 3339)
+  git_blob_sha?: string; // Git blob SHA of the local content file (absent for Google Docs types)
+}
+
+/**
+ * Sync-state manifest of a target, keyed by path relative to the target's local_path
+ * (which is also the path relative to the Drive folder).
+ */
+export interface SyncState {
+  version: number;
+  folder_id: string;
+  updated_at?: string;
+  files: Record<string, SyncStateEntry>;
+}
+
+export type SyncChange =
+  | "unknown" // No recorded state for the path
+  | "unchanged"
+  | "changed_locally"
+  | "changed_in_drive"
+  | "changed_in_both";
+
+export function get_sync_state_path(folder_id: string): string {
+  return path.posix.join(SYNC_STATE_DIR, `${folder_id}.json`);
+}
+
+export function create_empty_sync_state(folder_id: string): SyncState {
+  return { version: SYNC_STATE_VERSION, folder_id, files: {} };
+}
+
+/**
+ * Reads the committed manifest of a target.
+ * @returns The manifest, or null if the target has not been synced with a manifest yet.
+ */
+export async function load_sync_state(folder_id: string): Promise<SyncState | null> {
+  const state_path = get_sync_state_path(folder_id);
+  let content: string;
+  try {
+    content = await fs_promises.readFile(state_path, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      core.warning(`Could not read sync state ${state_path}: ${(error as Error).message}`);
+    } else {
+      core.info(`No sync state found at ${state_path}. Falling back to content comparison only.`);
+    }
+    return null;
+  }
+  try {
+    const data = JSON.parse(content) as SyncState;
+    if (data.version !== SYNC_STATE_VERSION || typeof data.files !== "object" || data.files === null) {
+      core.warning(`Ignoring sync state ${state_path}: unsupported version or missing 'files'.`);
+      return null;
+    }
+    core.info(`Loaded sync state for ${Object.keys(data.files).length} path(s) from ${state_path}.`);
+    return { ...data, folder_id };
+  } catch (error) {
+    core.warning(`Ignoring unparsable sync state ${state_path}: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+/**
+ * Writes the manifest with sorted keys so diffs of the committed file stay small.
+ * Leaves the file untouched when no entry changed, so unchanged runs produce no commit.
+ * @returns Path of the manifest.
+ */
+export async function save_sync_state(state: SyncState): Promise<string> {
+  const state_path = get_sync_state_path(state.folder_id);
+  const sorted_files = Object.fromEntries(
+    Object.keys(state.files)
+      .sort((a, b) => a.localeCompare(b))
+      .map(file_path => [file_path, state.files[file_path]])
+  );
+  const existing = await fs_promises.readFile(state_path, "utf-8").catch(() => null);
+  if (existing) {
+    try {
+      if (JSON.stringify((JSON.parse(existing) as SyncState).files) === JSON.stringify(sorted_files)) {
+        core.info(`Sync state ${state_path} is unchanged.`);
+        return state_path;
+      }
+    } catch {
+      // Unparsable manifest: overwrite it below
+    }
+  }
+  const data: SyncState = {
+    version: SYNC_STATE_VERSION,
+    folder_id: state.folder_id,
+    updated_at: new Date().toISOString(),
+    files: sorted_files,
+  };
+  await fs_promises.mkdir(path.dirname(state_path), { recursive: true });
+  await fs_promises.writeFile(state_path, JSON.stringify(data, null, 2) + "\n");
+  core.info(`Wrote sync state for ${Object.keys(sorted_files).length} path(s) to ${state_path}.`);
+  return state_path;
+}
+
+export function create_sync_state_entry(drive_item: DriveItem, git_blob_sha?: string): SyncStateEntry {
+  return {
+    drive_id: drive_item.id,
+    ...(drive_item.hash ? { md5: drive_item.hash } : {}),
+    modified_time: drive_item.modifiedTime,
+    ...(git_blob_sha ? { git_blob_sha } : {}),
+  };
+}
+
+/**
+ * Compares both sides of a path against its last synced state.
+ * @param entry Recorded state, if any.
+ * @param local_git_blob_sha Blob SHA of the local content file (undefined if it does not exist or is a Google Doc).
+ * @param drive_item Current Drive item (undefined if it no longer exists in Drive).
+ * @param local_md5 MD5 of the local content file, if known. When it equals the Drive md5Checksum,
+ *   both sides hold the same content (e.g. after an upload whose manifest update was lost), which
+ *   is never a conflict.
+ */
+export function classify_sync_change(
+  entry: SyncStateEntry | undefined,
+  local_git_blob_sha: string | undefined,
+  drive_item: DriveItem | undefined,
+  local_md5?: string
+): SyncChange {
+  if (!entry) return "unknown";
+  if (local_md5 && drive_item?.hash && local_md5 === drive_item.hash) return "unchanged";
+
+  const changed_locally = local_git_blob_sha !== entry.git_blob_sha;
+  let changed_in_drive: boolean;
+  if (!drive_item || drive_item.id !== entry.drive_id) {
+    changed_in_drive = true;
+  } else if (entry.md5 && drive_item.hash) {
+    // Content hash is authoritative; metadata-only edits (e.g. sharing) bump modifiedTime too
+    changed_in_drive = entry.md5 !== drive_item.hash;
+  } else {
+    changed_in_drive = entry.modified_time !== drive_item.modifiedTime;
+  }
+
+  if (changed_locally && changed_in_drive) return "changed_in_both";
+  if (changed_locally) return "changed_locally";
+  if (changed_in_drive) return "changed_in_drive";
+  return "unchanged";
+}
+
+/**
+ * Commits the manifest of a target on the current branch and pushes it straight to the
+ * triggering branch (push trigger only, where there is no PR to carry it).
+ * If the push is rejected (protected branch, or someone pushed first), the local commit is
+ * dropped so later steps don't build on it, and the run is marked as failed: the updated
+ * manifest is lost, and the next run compares against the older state.
+ */
+export async function commit_sync_state(folder_id: string, git_user_name: string, git_user_email: string): Promise<void> {
+  const state_path = get_sync_state_path(folder_id);
+  let committed = false;
+  try {
+    await execute_git("config", ["--local", "user.email", git_user_email]);
+    await execute_git("config", ["--local", "user.name", git_user_name]);
+    await execute_git("add", ["--", state_path]);
+    const diff_result = await execute_git("diff", ["--cached", "--quiet", "--", state_path], { ignoreReturnCode: true, silent: true });
+    if (diff_result.exitCode === 0) {
+      core.info(`Sync state ${state_path} is unchanged. Nothing to commit.`);
+      return;
+    }
+    const ref = process.env.GITHUB_REF;
+    if (!ref || !ref.startsWith("refs/heads/")) {
+      core.warning(`Cannot push sync state ${state_path}: GITHUB_REF '${ref || ""}' is not a branch.`);
+      return;
+    }
+    // [skip ci] keeps the state commit from re-triggering the sync workflow
+    await execute_git("commit", ["-m", `Update Drive sync state (${folder_id}) [skip ci]`, "--", state_path]);
+    committed = true;
+    await execute_git("push", ["origin", `HEAD:${ref}`]);
+    core.info(`Committed and pushed sync state ${state_path} to ${ref}.`);
+  } catch (error) {
+    if (!committed) {
+      core.warning(`Failed to commit sync state ${state_path}: ${(error as Error).message}`);
+      return;
+    }
+    await execute_git("reset", ["HEAD~1"], { ignoreReturnCode: true });
+    core.setFailed(
+      `Failed to push sync state ${state_path} to ${process.env.GITHUB_REF}: ${(error as Error).message}. ` +
+        `The action pushes the manifest directly to the triggering branch; allow it to push there (e.g. exempt it from branch protection).`
+    );
+  }
+}
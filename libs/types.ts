@@ -1,5 +1,6 @@
 export interface FileInfo {
   path: string;         // Full absolute path
   hash: string;
+  git_blob_sha: string; // Git blob SHA of the content, used for the sync-state manifest
   relative_path: string; // Path relative to the root_dir
 }
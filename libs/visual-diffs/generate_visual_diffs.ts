@@ -3,10 +3,15 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
 import { Buffer } from 'buffer';
-import { execute_git, GitResult } from '../git.js'; // Assuming GitResult type exists
-import { convert_pdf_to_pngs } from './pdf_converter.js';
+import { execute_git } from '../git.js';
+import { convert_pdf_to_images } from './pdf_converter.js';
+import { generate_page_diffs, read_page_images } from './pixel_diff.js';
 import { fetch_drive_file_as_pdf } from './google_drive_fetch.js';
+import { is_locally_renderable_file, render_local_file_as_pdf } from './local_render.js';
+import { post_preview_comment } from './preview_comment.js';
+import { open_preview_store, PreviewStore } from './preview_storage.js';
 import { GenerateVisualDiffsParams } from './types.js';
+import { is_export_file } from '../google-drive/export.js';
 import { MIME_TYPE_TO_EXTENSION } from '../google-drive/file_types.js'; // Import the map
 
 const SKIP_CI_TAG = '[skip visual-diff]'; // Specific tag for this step
@@ -56,82 +61,33 @@ async function should_skip_generation(branch_name: string): Promise<boolean> {
 }
 
 /**
- * Stages, commits, and pushes changes within a specified directory.
+ * True if a committed file is the content file of a synced Drive file, i.e. its link file
+ * ("Report.pdf" -> "Report.pdf--<id>.pdf.gdrive.json") is in the same folder, on the checked-out
+ * branch or in the PR diff (removed files have neither on disk).
  */
-async function stage_commit_and_push_changes(
-  changes_dir: string,
-  commit_message: string,
-  git_user_email: string,
-  git_user_name: string,
-  target_branch: string // Need the branch name for the push command
-): Promise<void> {
-  core.startGroup(`Committing and Pushing changes in '${changes_dir}' to branch '${target_branch}'`);
-  try {
-    // Configure Git user for this commit action
-    core.info(`Configuring Git user: ${git_user_name} <${git_user_email}>`);
-    await execute_git("config", ["--local", "user.email", git_user_email]);
-    await execute_git("config", ["--local", "user.name", git_user_name]);
-
-    core.info(`Adding changes within '${changes_dir}' to Git index...`);
-    // Add the specific base directory. This will stage:
-    // - New files created within it.
-    // - Modified files within it.
-    // - Deletions of files/directories within it (because they are gone from the filesystem
-    //   compared to the index/HEAD state).
-    await execute_git('add', [changes_dir]);
-
-    // Check if there are staged changes *within the target directory*
-    const status_result: GitResult = await execute_git(
-      'status',
-      ['--porcelain', '--', changes_dir], // Limit status check to the target dir
-      { ignoreReturnCode: true, silent: true } // Silence expected output
-    );
-
-    if (status_result.exitCode !== 0) {
-      core.warning(`Git status check failed with code ${status_result.exitCode}. Stderr: ${status_result.stderr}`);
-      // Proceeding, but this might indicate an issue.
-    }
-
-    if (!status_result.stdout.trim()) {
-      core.info(`No staged changes detected within '${changes_dir}' after add operation. Nothing to commit.`);
-      core.endGroup();
-      return; // Exit cleanly, nothing to do
-    }
-    core.info("Staged changes detected within target directory.");
-    core.debug("Staged changes:\n" + status_result.stdout);
-
-    core.info('Committing staged changes...');
-    await execute_git('commit', ['-m', commit_message]);
-
-    core.info(`Pushing changes to branch ${target_branch}...`);
-    // Using --force as this branch is assumed to be managed by the action. Adjust if needed.
-    await execute_git('push', ['--force', 'origin', target_branch]);
-
-    core.info('Changes pushed successfully.');
-
-  } catch (error: any) {
-    core.error(`Failed to stage, commit, or push changes: ${error.message}`);
-    if (error.stderr) { // If the error object has stderr (e.g., from execute_git)
-      core.error(`Git command stderr: ${error.stderr}`);
-    }
-    throw error; // Re-throw to indicate failure
-  } finally {
-    // Optional: Unset git config if needed, though usually not required in CI runners
-    // await execute_git("config", ["--local", "--unset", "user.email"]);
-    // await execute_git("config", ["--local", "--unset", "user.name"]);
-    core.endGroup();
+async function has_sibling_link_file(file_path: string, link_file_regex: RegExp, pr_file_paths: Set<string>): Promise<boolean> {
+  const dir = path.posix.dirname(file_path);
+  const prefix = path.posix.basename(file_path).replace(/--+/g, '-') + '--'; // Same sanitizing as construct_link_file_name
+  const is_link_file = (name: string) => name.startsWith(prefix) && link_file_regex.test(name);
+  for (const pr_file_path of pr_file_paths) {
+    if (path.posix.dirname(pr_file_path) === dir && is_link_file(path.posix.basename(pr_file_path))) return true;
   }
+  const names = await fs.promises.readdir(dir).catch(() => [] as string[]);
+  return names.some(is_link_file);
 }
 
-
 /**
  * Main function to generate visual diffs for a Pull Request.
+ * Renders the Drive files behind changed link files, and changed PDF/Office files committed
+ * to the PR (so PRs opened by people get previews too).
  */
 export async function generate_visual_diffs_for_pr(params: GenerateVisualDiffsParams): Promise<void> {
   core.startGroup(`Generating Visual Diffs for PR #${params.pr_number} on branch ${params.head_branch}`);
   core.info(`Repo: ${params.owner}/${params.repo}`);
   core.info(`Output Base Directory: ${params.output_base_dir}`);
-  core.info(`PNG Resolution: ${params.resolution_dpi} DPI`);
+  core.info(`Image Format: ${params.image_format.toUpperCase()} at ${params.resolution_dpi} DPI (max ${params.max_pixels > 0 ? `${params.max_pixels} pixels per page` : 'unlimited'})`);
+  core.info(`Thumbnail Width: ${params.thumbnail_width > 0 ? `${params.thumbnail_width}px` : 'disabled'}`);
+  core.info(`Page Change Threshold: ${params.change_threshold_percent}% of pixels`);
 
   // --- Skip Check ---
   if (await should_skip_generation(params.head_branch)) {
@@ -173,19 +129,14 @@ export async function generate_visual_diffs_for_pr(params: GenerateVisualDiffsPa
     core.endGroup();
   }
 
-  // --- Ensure output directory exists ---
-  try {
-    core.info(`Ensuring output directory exists: ${params.output_base_dir}`);
-    await fs.promises.mkdir(params.output_base_dir, { recursive: true });
-  } catch (dirError: any) {
-    core.error(`Failed to create output directory ${params.output_base_dir} after checkout: ${dirError.message}`);
-    throw dirError;
-  }
-
   // --- Find Changed Link Files in PR ---
   core.startGroup('Finding Changed Link Files in PR');
   // Store just the path reported by GitHub API initially
   const changed_link_file_paths: string[] = [];
+  // Committed PDFs and Office files (e.g. from a PR opened by a person) are rendered locally
+  const changed_local_file_paths: string[] = [];
+  const pr_file_paths = new Set<string>(); // Every file in the PR diff, to find link files next to local files
+  const output_dir_prefix = path.posix.normalize(params.output_base_dir.replace(/\\/g, '/')).replace(/\/$/, '') + '/';
   const known_extensions_vd = Object.values(MIME_TYPE_TO_EXTENSION).join('|');
   // Regex still useful for *finding* the relevant files, even if we don't capture groups here
   const link_file_regex_vd = new RegExp(`--[a-zA-Z0-9_-]+\\.(${known_extensions_vd})\\.gdrive\\.json$`, 'i');
@@ -215,14 +166,26 @@ export async function generate_visual_diffs_for_pr(params: GenerateVisualDiffsPa
         if (is_match && is_relevant_status) {
           core.info(` -> Found candidate link file: ${file.filename} (Status: ${file.status})`);
           changed_link_file_paths.push(file.filename); // Store the full path
+        } else if (is_relevant_status && is_locally_renderable_file(file.filename) && !file.filename.startsWith(output_dir_prefix) && !is_export_file(file.filename)) {
+          core.info(` -> Found candidate local file: ${file.filename} (Status: ${file.status})`);
+          changed_local_file_paths.push(file.filename);
         }
+        pr_file_paths.add(file.filename);
         // Removed the 'else' block for skipping, as the debug log above covers it.
       }
     }
+    // Content files synced from Drive sit next to their link file and are rendered from Drive already
+    for (const file_path of [...changed_local_file_paths]) {
+      if (await has_sibling_link_file(file_path, link_file_regex_vd, pr_file_paths)) {
+        core.info(` -> Skipping local rendering of ${file_path}: it is synced from Drive (link file next to it).`);
+        changed_local_file_paths.splice(changed_local_file_paths.indexOf(file_path), 1);
+      }
+    }
     // *** ADDED DEBUGGING: Log summary ***
     core.info(`Finished listing API files. Total files checked: ${api_file_count}.`);
     // *** END ADDED DEBUGGING ***
     core.info(`Found ${changed_link_file_paths.length} added/modified/renamed/removed link file(s) matching pattern to process.`);
+    core.info(`Found ${changed_local_file_paths.length} added/modified/renamed/removed PDF/Office file(s) to render locally.`);
   } catch (error: any) {
     core.error(`Failed to list PR files via GitHub API: ${error.message}`);
     core.endGroup();
@@ -232,15 +195,28 @@ export async function generate_visual_diffs_for_pr(params: GenerateVisualDiffsPa
   }
 
   // If no relevant files changed *according to the PR diff*, we don't need to do anything.
-  if (changed_link_file_paths.length === 0) {
-    core.info('No relevant changed link files found in this PR update. Nothing to generate or commit.');
+  if (changed_link_file_paths.length === 0 && changed_local_file_paths.length === 0) {
+    core.info('No relevant changed link files or local documents found in this PR update. Nothing to generate or commit.');
     // *** ADDED DEBUGGING: Explicit message before exit ***
-    core.warning('Exiting visual diff generation because no matching link files were identified in the PR diff from the API.');
+    core.warning('Exiting visual diff generation because no matching link files or local documents were identified in the PR diff from the API.');
     // *** END ADDED DEBUGGING ***
     core.endGroup(); // Close the main group
     return;
   }
 
+  // --- Open Preview Storage ---
+  // Previews are rendered into the store's local directory (the output directory itself when
+  // they are committed to the PR branch), which holds the previous rendering to diff against.
+  let store: PreviewStore;
+  try {
+    store = await open_preview_store(params);
+    core.info(`Rendering previews into: ${store.root}`);
+  } catch (storeError: any) {
+    core.error(`Failed to open visual diff storage '${params.storage}': ${storeError.message}`);
+    core.endGroup();
+    throw storeError;
+  }
+
   // --- Setup Temporary Directory ---
   let temp_dir: string | null = null;
   try {
@@ -250,12 +226,14 @@ export async function generate_visual_diffs_for_pr(params: GenerateVisualDiffsPa
     core.error(`Failed to create temporary directory: ${tempError.message}`);
     // Attempt cleanup just in case
     if (temp_dir) await fs.promises.rm(temp_dir, { recursive: true, force: true }).catch(() => { });
+    await store.close();
     throw tempError;
   }
 
   let total_pngs_generated = 0;
   const processed_files_info: string[] = []; // Track info for commit message (PNG generation)
   const cleaned_diff_dirs: string[] = []; // Track cleaned directories
+  const rendered_dirs: string[] = []; // Preview folders (relative to store.root) regenerated in this run
 
   // --- Process Each Link File ---
   core.startGroup('Processing Files and Generating/Cleaning PNGs');
@@ -263,10 +241,11 @@ export async function generate_visual_diffs_for_pr(params: GenerateVisualDiffsPa
   // Phase 1: Collect metadata AND determine output path for each link file
   // We still iterate through the *changed* link files from the PR diff to decide what *might* need processing.
   interface ProcessedLinkInfo {
-    link_file_path: string; // Full path from PR list (e.g., docs/Report--ID.doc.gdrive.json)
-    png_output_relative_path: string; // Relative path for PNG folder (e.g., docs/Report--ID.doc)
+    link_file_path: string; // Full path from PR list (e.g., docs/Report--ID.doc.gdrive.json, or docs/deck.pdf for local files)
+    png_output_relative_path: string; // Relative path for PNG folder (e.g., docs/Report--ID.doc, or docs/deck.pdf)
     file_id_from_content: string; // ID read from JSON content
     mime_type: string; // Mime type from JSON content
+    source: 'drive' | 'local'; // Fetched from Drive (link files) or rendered from the committed file
   }
   const files_to_process: ProcessedLinkInfo[] = [];
   core.info('Collecting metadata and calculating output paths based on PR diff...');
@@ -296,6 +275,7 @@ export async function generate_visual_diffs_for_pr(params: GenerateVisualDiffsPa
             png_output_relative_path: png_output_relative_path,
             file_id_from_content: "deleted", // Placeholder
             mime_type: "deleted", // Placeholder
+            source: 'drive',
           });
           continue; // Go to next file in PR diff
         } else {
@@ -325,6 +305,7 @@ export async function generate_visual_diffs_for_pr(params: GenerateVisualDiffsPa
         png_output_relative_path: png_output_relative_path,
         file_id_from_content: file_data.id,
         mime_type: file_data.mimeType,
+        source: 'drive',
       });
       core.info(`   - Ready to process: ContentID=${file_data.id}, MIME=${file_data.mimeType}, OutputPath=${png_output_relative_path}`);
 
@@ -334,18 +315,41 @@ export async function generate_visual_diffs_for_pr(params: GenerateVisualDiffsPa
       continue;
     }
   } // End metadata collection loop
+  // Local files render into a folder named after the file itself (e.g., _diff_/docs/deck.pdf/).
+  // Deleted ones are cleaned up below, like deleted link files.
+  for (const local_file_path of changed_local_file_paths) {
+    files_to_process.push({
+      link_file_path: local_file_path,
+      png_output_relative_path: local_file_path,
+      file_id_from_content: "local", // Placeholder
+      mime_type: "local", // Placeholder
+      source: 'local',
+    });
+  }
   core.info(`Collected metadata for ${files_to_process.length} link files based on PR diff.`);
 
 
   // Phase 2: Process files - Fetch PDF, Convert to PNGs OR Cleanup old diffs
+  // All PDF fetches start up front (their Drive calls share the Drive pool); the PDF->PNG conversion below
+  // stays sequential (CPU bound). Temp PDF names are prefixed with the index, so same-named
+  // files in different folders don't overwrite each other while downloading.
+  const get_temp_pdf_path = (index: number) =>
+    path.join(temp_dir!, `${index}-${path.basename(files_to_process[index].png_output_relative_path)}.pdf`); // Use temp_dir! as it's checked earlier
+  // Local files are rendered in the loop below instead (the Office converter is CPU bound too).
+  const pdf_fetches = files_to_process.map((file_info, index) =>
+    file_info.mime_type === "deleted" || file_info.source === 'local'
+      ? Promise.resolve(false)
+      : fetch_drive_file_as_pdf(params.drive, file_info.file_id_from_content, file_info.mime_type, get_temp_pdf_path(index))
+  );
+
   // Now iterate through the collected files_to_process list
-  for (const file_info of files_to_process) {
+  for (const [index, file_info] of files_to_process.entries()) {
     core.info(`Processing file entry: ${file_info.link_file_path} -> Output Folder: ${file_info.png_output_relative_path}`);
     const { link_file_path, png_output_relative_path, file_id_from_content, mime_type } = file_info;
 
-    // Construct the absolute path for the final PNG output directory
-    // It's crucial this uses params.output_base_dir which is relative to the repo root
-    const image_output_dir_absolute_path = path.join(params.output_base_dir, png_output_relative_path);
+    // Construct the path for the final PNG output directory inside the preview store
+    // (params.output_base_dir, relative to the repo root, when committing to the PR branch)
+    const image_output_dir_absolute_path = path.join(store.root, png_output_relative_path);
 
     // *** START CLEANUP/PROCESS LOGIC ***
     // Check if the source link file *still exists* on the filesystem in the checked-out branch
@@ -356,13 +360,17 @@ export async function generate_visual_diffs_for_pr(params: GenerateVisualDiffsPa
       core.info(`   - Link file '${link_file_path}' exists locally. Proceeding with PNG generation/update.`);
 
       // --- PNG Generation Path ---
-      // Use the relative path's basename for the temp PDF name for clarity
-      const temp_pdf_basename = path.basename(png_output_relative_path);
-      const temp_pdf_path = path.join(temp_dir!, `${temp_pdf_basename}.pdf`); // Use temp_dir! as it's checked earlier
+      const temp_pdf_path = get_temp_pdf_path(index);
 
-      // Fetch PDF
-      core.info(`   - Fetching Drive file ID ${file_id_from_content} as PDF...`);
-      const fetch_success = await fetch_drive_file_as_pdf(params.drive, file_id_from_content, mime_type, temp_pdf_path);
+      // Fetch PDF (already started above), or render the committed file
+      let fetch_success: boolean;
+      if (file_info.source === 'local') {
+        core.info(`   - Rendering committed file ${link_file_path} as PDF...`);
+        fetch_success = await render_local_file_as_pdf(link_file_path, params.office_converter, temp_pdf_path);
+      } else {
+        core.info(`   - Waiting for Drive file ID ${file_id_from_content} (${mime_type}) as PDF...`);
+        fetch_success = await pdf_fetches[index];
+      }
 
       if (!fetch_success) {
         core.warning(`   - Failed to fetch PDF for ${link_file_path}. Skipping PNG generation.`);
@@ -374,6 +382,9 @@ export async function generate_visual_diffs_for_pr(params: GenerateVisualDiffsPa
       // Convert PDF to PNGs
       core.info(`   - Converting PDF to PNGs in target directory: ${image_output_dir_absolute_path}`);
       try {
+        // Keep the previous rendering in memory: changed pages are diffed against it
+        await store.restore(png_output_relative_path);
+        const previous_pages = await read_page_images(image_output_dir_absolute_path);
         // Clean the specific output directory *before* generating new files.
         // This is important for updates where the number of pages might change.
         core.debug(`   - Cleaning existing output directory before regeneration: ${image_output_dir_absolute_path}`);
@@ -381,11 +392,22 @@ export async function generate_visual_diffs_for_pr(params: GenerateVisualDiffsPa
         await fs.promises.rm(image_output_dir_absolute_path, { recursive: true, force: true });
         await fs.promises.mkdir(image_output_dir_absolute_path, { recursive: true });
 
-        const generated_pngs = await convert_pdf_to_pngs(temp_pdf_path, image_output_dir_absolute_path, params.resolution_dpi);
+        const generated_pngs = await convert_pdf_to_images(temp_pdf_path, image_output_dir_absolute_path, {
+          resolution_dpi: params.resolution_dpi,
+          format: params.image_format,
+          max_pixels: params.max_pixels,
+        });
 
+        rendered_dirs.push(png_output_relative_path);
         if (generated_pngs.length > 0) {
           total_pngs_generated += generated_pngs.length;
-          processed_files_info.push(`'${link_file_path}' (${generated_pngs.length} pages) -> ${png_output_relative_path}`);
+          const { pages } = await generate_page_diffs(image_output_dir_absolute_path, previous_pages, {
+            threshold_percent: params.change_threshold_percent,
+            format: params.image_format,
+            thumbnail_width: params.thumbnail_width,
+          });
+          const count_pages = (status: string) => pages.filter(page => page.status === status).length;
+          processed_files_info.push(`'${link_file_path}' (${generated_pngs.length} pages: ${count_pages('changed')} changed, ${count_pages('added')} added, ${count_pages('removed')} removed, ${count_pages('moved')} moved) -> ${png_output_relative_path}`);
           core.info(`   - Successfully generated ${generated_pngs.length} PNGs.`);
         } else {
           core.warning(`   - No PNGs generated from PDF for ${link_file_path}. PDF might be empty or conversion failed.`);
@@ -417,8 +439,7 @@ export async function generate_visual_diffs_for_pr(params: GenerateVisualDiffsPa
           // If stat succeeded, the directory exists, remove it
           await fs.promises.rm(image_output_dir_absolute_path, { recursive: true, force: true });
           core.info(`   - Successfully removed visual diff directory.`);
-          // Use the absolute path here, convert to relative later for commit message
-          cleaned_diff_dirs.push(image_output_dir_absolute_path); // Track cleaned dir
+          cleaned_diff_dirs.push(png_output_relative_path); // Track cleaned dir (relative to store.root)
         } catch (rmOrStatError: any) {
           if (rmOrStatError.code === 'ENOENT') {
             core.info(`   - Visual diff directory '${image_output_dir_absolute_path}' does not exist. No cleanup needed.`);
@@ -437,6 +458,7 @@ export async function generate_visual_diffs_for_pr(params: GenerateVisualDiffsPa
     // *** END CLEANUP/PROCESS LOGIC ***
 
   } // End loop through files_to_process
+  await Promise.all(pdf_fetches); // Skipped entries may still be downloading into temp_dir
   core.endGroup(); // End 'Processing Files' group
 
 
@@ -464,45 +486,27 @@ export async function generate_visual_diffs_for_pr(params: GenerateVisualDiffsPa
     }
     if (cleaned_diff_dirs.length > 0) {
       commit_lines.push(`Cleaned ${cleaned_diff_dirs.length} visual diff directorie(s):`);
-      // Use relative path for cleaner commit message
-      // Make relative to the CWD (repo root), not output_base_dir
-      commit_lines.push(...cleaned_diff_dirs.map(absPath => `- ${path.relative('.', absPath).replace(/\\/g, '/')}`));
+      commit_lines.push(...cleaned_diff_dirs.map(dir => `- ${dir.replace(/\\/g, '/')}`));
     }
 
     const commit_message = `${SKIP_CI_TAG} Update visual diff PNGs for PR #${params.pr_number}\n\n${commit_lines.join('\n')}`;
 
     try {
-      // stage_commit_and_push_changes should correctly stage the deletions made by fs.rm
-      // when 'git add params.output_base_dir' is called.
-      await stage_commit_and_push_changes(
-        params.output_base_dir, // Directory containing all changes (additions and deletions)
-        commit_message,
-        params.git_user_email,
-        params.git_user_name,
-        params.head_branch // Branch to push to
-      );
-
-      // Debug post-commit Git state
-      core.debug('Debugging post-commit Git state...');
-      try {
-        const postCommitBranch = await execute_git('rev-parse', ['--abbrev-ref', 'HEAD'], { silent: true });
-        core.debug(`Post-commit branch is now: ${postCommitBranch.stdout.trim()}`); // Should still be head_branch
-        const postCommitHead = await execute_git('rev-parse', ['HEAD'], { silent: true });
-        core.debug(`Post-commit HEAD SHA: ${postCommitHead.stdout.trim()}`);
-        const postCommitLog = await execute_git('log', ['-1', '--pretty=%H %s'], { silent: true });
-        core.debug(`Latest commit on local branch:\n${postCommitLog.stdout}`);
-      } catch (gitError: any) {
-        core.warning(`Could not get post-commit git debug info: ${gitError.message}`);
-      }
-
-
+      // Commits to the PR branch or the visual-diffs branch, or uploads (see open_preview_store)
+      await store.publish([...rendered_dirs, ...cleaned_diff_dirs], commit_message);
     } catch (commitError) {
-      core.error("Visual diff generation/cleanup process completed, but committing/pushing changes failed.");
+      core.error("Visual diff generation/cleanup process completed, but publishing the previews failed.");
+      await store.close();
       throw commitError; // Fail the action
     }
+    // PNGs committed to the PR branch show up in its diff; elsewhere the PR gets a comment linking them
+    if (store.storage !== 'branch') {
+      await post_preview_comment(params, store, rendered_dirs, cleaned_diff_dirs);
+    }
   } else {
     core.info('No link files were processed or cleaned up. No commit needed.');
   }
+  await store.close();
 
 
   core.info('Visual Diff Generation step finished successfully.');
@@ -2,6 +2,7 @@ import * as core from '@actions/core';
 import * as fs from 'fs';
 import * as path from 'path';
 import { drive_v3 } from 'googleapis';
+import { run_in_drive_pool } from '../google-drive/pool.js';
 import {
   is_readable_stream,
   // Remove GOOGLE_DRIVE_EXPORTABLE_TO_PDF_TYPES as the logic changes
@@ -40,7 +41,8 @@ const NATIVE_GOOGLE_WORKSPACE_EXPORTABLE_TYPES = [
 
 /**
  * Fetches a file from Google Drive, exporting or converting as needed to get a PDF.
- * Saves the result to a temporary path.
+ * Saves the result to a temporary path. Each Drive call goes through the shared pool (which
+ * retries rate-limit and server errors), so callers can start all fetches at once.
  *
  * @param drive - Initialized Google Drive API client.
  * @param file_id - The ID of the Drive file to fetch.
@@ -63,10 +65,10 @@ export async function fetch_drive_file_as_pdf(
       // --- Direct Export Path (Native Google Types) ---
       core.info(`   - Exporting native Google Workspace file directly as PDF...`);
       core.debug(`     Attempting drive.files.export({ fileId: '${file_id}', mimeType: 'application/pdf' })`);
-      const response = await drive.files.export(
+      const response = await run_in_drive_pool(() => drive.files.export(
         { fileId: file_id, mimeType: 'application/pdf' },
         { responseType: 'stream' }
-      );
+      ));
       if (is_readable_stream(response.data)) {
         response_stream = response.data;
       } else {
@@ -78,10 +80,10 @@ export async function fetch_drive_file_as_pdf(
       // --- Direct Download Path (Native PDF) ---
       core.info(`   - Downloading native PDF file directly...`);
       core.debug(`     Attempting drive.files.get({ fileId: '${file_id}', alt: 'media', supportsAllDrives: true })`);
-      const response = await drive.files.get(
+      const response = await run_in_drive_pool(() => drive.files.get(
         { fileId: file_id, alt: 'media', supportsAllDrives: true },
         { responseType: 'stream' }
-      );
+      ));
       if (is_readable_stream(response.data)) {
         response_stream = response.data;
       } else {
@@ -97,7 +99,7 @@ export async function fetch_drive_file_as_pdf(
       try {
         // Step 1: Copy and Convert
         core.debug(`     Attempting drive.files.copy({ fileId: '${file_id}', requestBody: { mimeType: '${target_native_mime_type}' }, supportsAllDrives: true })`);
-        const copy_response = await drive.files.copy({
+        const copy_response = await run_in_drive_pool(() => drive.files.copy({
           fileId: file_id,
           requestBody: {
             // Provide a temporary name to avoid issues, include original ID for traceability
@@ -106,7 +108,7 @@ export async function fetch_drive_file_as_pdf(
           },
           fields: 'id, name', // Request ID and name of the new file
           supportsAllDrives: true,
-        });
+        }));
 
         temp_native_file_id = copy_response.data.id || null;
         if (!temp_native_file_id) {
@@ -117,10 +119,11 @@ export async function fetch_drive_file_as_pdf(
         // Step 2: Export the temporary native file
         core.info(`   - Exporting temporary native file '${temp_native_file_id}' as PDF...`);
         core.debug(`     Attempting drive.files.export({ fileId: '${temp_native_file_id}', mimeType: 'application/pdf' })`);
-        const export_response = await drive.files.export(
-          { fileId: temp_native_file_id, mimeType: 'application/pdf' },
+        const native_file_id = temp_native_file_id;
+        const export_response = await run_in_drive_pool(() => drive.files.export(
+          { fileId: native_file_id, mimeType: 'application/pdf' },
           { responseType: 'stream' }
-        );
+        ));
 
         if (is_readable_stream(export_response.data)) {
           response_stream = export_response.data;
@@ -212,11 +215,12 @@ export async function fetch_drive_file_as_pdf(
     if (temp_native_file_id) {
       core.info(`   - Cleaning up temporary native file: ID ${temp_native_file_id}`);
       try {
-        await drive.files.update({
-          fileId: temp_native_file_id,
+        const native_file_id = temp_native_file_id;
+        await run_in_drive_pool(() => drive.files.update({
+          fileId: native_file_id,
           requestBody: { trashed: true },
           supportsAllDrives: true, // Keep this for consistency
-        });
+        }));
         core.info(`   - Successfully moved temporary native file ${temp_native_file_id} to trash.`);
       } catch (delete_error) {
         core.warning(`   - Failed to move temporary native file ${temp_native_file_id} to trash: ${(delete_error as Error).message}`);
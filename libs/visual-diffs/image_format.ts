@@ -0,0 +1,119 @@
+import { getExecOutput } from '@actions/exec';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PreviewImageFormat } from './types.js';
+
+// PNG and JPEG are encoded by mupdf; WebP goes through the libwebp command line tools
+// (cwebp/dwebp), which must be installed on the runner
+export const IMAGE_EXTENSIONS: Record<PreviewImageFormat, string> = { png: '.png', jpeg: '.jpg', webp: '.webp' };
+const JPEG_QUALITY = 85;
+const WEBP_QUALITY = 80;
+
+// Packed 8-bit RGB pixels (3 bytes per pixel, no row padding)
+export interface RgbImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export type MuPDF = typeof import('mupdf');
+type Pixmap = InstanceType<MuPDF['Pixmap']>;
+
+// Runs a libwebp tool on a temporary input file and returns the bytes of its output file
+async function run_webp_tool(tool: 'cwebp' | 'dwebp', input: Uint8Array, input_name: string, output_name: string, args: string[]): Promise<Uint8Array> {
+  const temp_dir = await fs.promises.mkdtemp(path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'webp-'));
+  try {
+    const input_path = path.join(temp_dir, input_name);
+    const output_path = path.join(temp_dir, output_name);
+    await fs.promises.writeFile(input_path, input);
+    const result = await getExecOutput(tool, [...args, input_path, '-o', output_path], { ignoreReturnCode: true, silent: true });
+    if (result.exitCode !== 0) {
+      throw new Error(`${tool} exited with code ${result.exitCode}: ${result.stderr.trim()}`);
+    }
+    return await fs.promises.readFile(output_path);
+  } finally {
+    await fs.promises.rm(temp_dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Decodes a preview image (PNG, JPEG or WebP, by file extension) into RGB pixels.
+ */
+export async function decode_image(mupdf: MuPDF, data: Uint8Array, file_name: string): Promise<RgbImage> {
+  if (file_name.toLowerCase().endsWith(IMAGE_EXTENSIONS.webp)) {
+    data = await run_webp_tool('dwebp', data, 'input.webp', 'output.png', ['-quiet']);
+  }
+  const image = new mupdf.Image(data);
+  const source = image.toPixmap();
+  const pixmap = source.convertToColorSpace(mupdf.ColorSpace.DeviceRGB, false);
+  try {
+    const width = pixmap.getWidth();
+    const height = pixmap.getHeight();
+    const stride = pixmap.getStride();
+    const pixels = pixmap.getPixels(); // View into WASM memory: copy before the next allocation
+    const rgb = new Uint8Array(width * height * 3);
+    for (let y = 0; y < height; y++) {
+      rgb.set(pixels.subarray(y * stride, y * stride + width * 3), y * width * 3);
+    }
+    return { width, height, data: rgb };
+  } finally {
+    pixmap.destroy();
+    source.destroy();
+    image.destroy();
+  }
+}
+
+/**
+ * Encodes a rendered pixmap (RGB, no alpha) in the given format.
+ */
+export async function encode_pixmap(pixmap: Pixmap, format: PreviewImageFormat): Promise<Uint8Array> {
+  if (format === 'jpeg') return pixmap.asJPEG(JPEG_QUALITY);
+  const png = pixmap.asPNG();
+  if (format === 'png') return png;
+  return run_webp_tool('cwebp', png, 'input.png', 'output.webp', ['-quiet', '-q', String(WEBP_QUALITY)]);
+}
+
+/**
+ * Encodes RGB pixels in the given format.
+ */
+export async function encode_image(mupdf: MuPDF, image: RgbImage, format: PreviewImageFormat): Promise<Uint8Array> {
+  const pixmap = new mupdf.Pixmap(mupdf.ColorSpace.DeviceRGB, [0, 0, image.width, image.height], false);
+  try {
+    const stride = pixmap.getStride();
+    const pixels = pixmap.getPixels();
+    for (let y = 0; y < image.height; y++) {
+      pixels.set(image.data.subarray(y * image.width * 3, (y + 1) * image.width * 3), y * stride);
+    }
+    return await encode_pixmap(pixmap, format);
+  } finally {
+    pixmap.destroy();
+  }
+}
+
+/**
+ * Scales an image down to the given width (averaging the covered pixels). Narrower images
+ * are returned as is.
+ */
+export function scale_image(image: RgbImage, width: number): RgbImage {
+  if (image.width <= width) return image;
+  const height = Math.max(1, Math.round((image.height * width) / image.width));
+  const sums = new Float64Array(width * height * 3);
+  const counts = new Uint32Array(width * height);
+  for (let y = 0; y < image.height; y++) {
+    const target_y = Math.min(height - 1, Math.floor((y * height) / image.height));
+    for (let x = 0; x < image.width; x++) {
+      const target = target_y * width + Math.min(width - 1, Math.floor((x * width) / image.width));
+      const source = (y * image.width + x) * 3;
+      sums[target * 3] += image.data[source];
+      sums[target * 3 + 1] += image.data[source + 1];
+      sums[target * 3 + 2] += image.data[source + 2];
+      counts[target]++;
+    }
+  }
+  const data = new Uint8Array(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    for (let c = 0; c < 3; c++) data[i * 3 + c] = Math.round(sums[i * 3 + c] / Math.max(1, counts[i]));
+  }
+  return { width, height, data };
+}
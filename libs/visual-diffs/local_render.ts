@@ -0,0 +1,83 @@
+import * as core from '@actions/core';
+import { getExecOutput } from '@actions/exec';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Extensions of committed files rendered locally (as opposed to Drive files behind link files)
+const LOCAL_PDF_EXTENSION = '.pdf';
+const LOCAL_OFFICE_EXTENSIONS = [
+  '.docx', '.doc', '.odt', '.rtf', // Documents
+  '.pptx', '.ppt', '.odp',         // Presentations
+  '.xlsx', '.xls', '.ods',         // Spreadsheets
+];
+
+export const DEFAULT_OFFICE_CONVERTER = 'soffice --headless --convert-to pdf --outdir {output_dir} {input}';
+
+/**
+ * True for committed files that can be rendered locally: PDFs, and Office/OpenDocument
+ * files (through the configured converter).
+ */
+export function is_locally_renderable_file(file_path: string): boolean {
+  const extension = path.extname(file_path).toLowerCase();
+  return extension === LOCAL_PDF_EXTENSION || LOCAL_OFFICE_EXTENSIONS.includes(extension);
+}
+
+/**
+ * Runs the Office converter for one file. The command is split on whitespace before the
+ * placeholders are filled in, so paths with spaces stay single arguments.
+ * The converter must write "<input name without extension>.pdf" into {output_dir}, as
+ * LibreOffice does.
+ */
+async function convert_office_file_to_pdf(file_path: string, office_converter: string, output_dir: string): Promise<string> {
+  const [command, ...args] = office_converter
+    .trim()
+    .split(/\s+/)
+    .map(part => part.replace('{input}', path.resolve(file_path)).replace('{output_dir}', output_dir));
+  if (!command) throw new Error('No Office converter configured (visual_diff_office_converter is empty).');
+
+  core.info(`   - Converting ${file_path} to PDF with '${command}'...`);
+  const result = await getExecOutput(command, args, { ignoreReturnCode: true, silent: true });
+  if (result.exitCode !== 0) {
+    throw new Error(`Converter exited with code ${result.exitCode}: ${result.stderr.trim() || result.stdout.trim()}`);
+  }
+  return path.join(output_dir, path.basename(file_path, path.extname(file_path)) + '.pdf');
+}
+
+/**
+ * Produces a PDF of a committed file for the visual diff: PDFs are copied as is, Office files
+ * go through the local converter (e.g. LibreOffice headless).
+ *
+ * @param file_path Path of the file in the checked-out branch.
+ * @param office_converter Converter command with {input} and {output_dir} placeholders.
+ * @param temp_pdf_path The local path where the PDF should be saved.
+ * @returns True if the PDF was written, false otherwise (errors are logged).
+ */
+export async function render_local_file_as_pdf(
+  file_path: string,
+  office_converter: string,
+  temp_pdf_path: string
+): Promise<boolean> {
+  await fs.promises.mkdir(path.dirname(temp_pdf_path), { recursive: true });
+  if (path.extname(file_path).toLowerCase() === LOCAL_PDF_EXTENSION) {
+    try {
+      await fs.promises.copyFile(file_path, temp_pdf_path);
+      return true;
+    } catch (error: unknown) {
+      core.warning(`   - Failed to copy ${file_path}: ${(error as Error).message}`);
+      return false;
+    }
+  }
+
+  // The converter picks the output name, so give it a directory of its own
+  const converter_output_dir = await fs.promises.mkdtemp(temp_pdf_path.replace(/\.pdf$/, '') + '-');
+  try {
+    const converted_pdf_path = await convert_office_file_to_pdf(file_path, office_converter, converter_output_dir);
+    await fs.promises.rename(converted_pdf_path, temp_pdf_path);
+    return true;
+  } catch (error: unknown) {
+    core.warning(`   - Failed to convert ${file_path} to PDF: ${(error as Error).message}`);
+    return false;
+  } finally {
+    await fs.promises.rm(converter_output_dir, { recursive: true, force: true }).catch(() => { });
+  }
+}
@@ -0,0 +1,176 @@
+import { RgbImage } from './image_format.js';
+
+// Hamming distance (out of 64 bits) up to which two page hashes show the same page
+const SAME_PAGE_DISTANCE = 5;
+// Up to this distance an edited page is clearly the same page; beyond it pages only pair up
+// when they sit at the same spot between matched pages (a heavily edited page)
+const SIMILAR_PAGE_DISTANCE = 22;
+
+export interface AlignedPage {
+  status: 'matched' | 'inserted' | 'deleted' | 'moved';
+  old_index: number | null; // Index in the previous rendering (null for inserted pages)
+  new_index: number | null; // Index in the new rendering (null for deleted pages)
+}
+
+/**
+ * Perceptual hash of a page (dHash): the page is scaled down to 9x8 grayscale cells and each
+ * bit tells whether a cell is brighter than its right neighbour. Re-rendering noise and small
+ * edits change few bits; a different page changes many.
+ */
+export function compute_page_hash(image: RgbImage): bigint {
+  const columns = 9;
+  const rows = 8;
+  const cells = new Float64Array(columns * rows);
+  const counts = new Uint32Array(columns * rows);
+  for (let y = 0; y < image.height; y++) {
+    const row = Math.min(rows - 1, Math.floor((y * rows) / image.height));
+    for (let x = 0; x < image.width; x++) {
+      const column = Math.min(columns - 1, Math.floor((x * columns) / image.width));
+      const i = (y * image.width + x) * 3;
+      cells[row * columns + column] += 0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2];
+      counts[row * columns + column]++;
+    }
+  }
+  let hash = 0n;
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns - 1; column++) {
+      const left = cells[row * columns + column] / Math.max(1, counts[row * columns + column]);
+      const right = cells[row * columns + column + 1] / Math.max(1, counts[row * columns + column + 1]);
+      hash = (hash << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+  return hash;
+}
+
+function hamming_distance(a: bigint, b: bigint): number {
+  let value = a ^ b;
+  let count = 0;
+  while (value) {
+    count += Number(value & 1n);
+    value >>= 1n;
+  }
+  return count;
+}
+
+/**
+ * Aligns the pages of two renderings of a document, so inserting or deleting a page doesn't
+ * make every following page look modified.
+ * An edit-distance alignment keeps the page order: same pages match for free, edited pages
+ * cost less than a deletion plus an insertion, and everything else is inserted or deleted.
+ * Deleted and inserted pages that show the same page are then reported as moved.
+ */
+export function align_pages(old_hashes: bigint[], new_hashes: bigint[]): AlignedPage[] {
+  const n = old_hashes.length;
+  const m = new_hashes.length;
+  const substitution_cost = (i: number, j: number) => {
+    const distance = hamming_distance(old_hashes[i], new_hashes[j]);
+    return distance <= SAME_PAGE_DISTANCE ? 0 : distance <= SIMILAR_PAGE_DISTANCE ? 1 : 1.9;
+  };
+  // cost[i][j]: cheapest alignment of the first i old pages with the first j new pages
+  const cost: Float64Array[] = Array.from({ length: n + 1 }, () => new Float64Array(m + 1));
+  for (let i = 0; i <= n; i++) cost[i][0] = i;
+  for (let j = 0; j <= m; j++) cost[0][j] = j;
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + substitution_cost(i - 1, j - 1),
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      );
+    }
+  }
+
+  // Walk back from the end; ties prefer a match, then a deletion
+  const aligned: AlignedPage[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + substitution_cost(i - 1, j - 1)) {
+      aligned.push({ status: 'matched', old_index: i - 1, new_index: j - 1 });
+      i--;
+      j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      aligned.push({ status: 'deleted', old_index: i - 1, new_index: null });
+      i--;
+    } else {
+      aligned.push({ status: 'inserted', old_index: null, new_index: j - 1 });
+      j--;
+    }
+  }
+  aligned.reverse();
+
+  // Moves: a deleted page that shows up as inserted elsewhere (closest pairs first)
+  const deleted = aligned.filter(page => page.status === 'deleted');
+  const inserted = aligned.filter(page => page.status === 'inserted');
+  const candidates = deleted
+    .flatMap(old_page => inserted.map(new_page => ({
+      old_page,
+      new_page,
+      distance: hamming_distance(old_hashes[old_page.old_index!], new_hashes[new_page.new_index!]),
+    })))
+    .filter(candidate => candidate.distance <= SAME_PAGE_DISTANCE)
+    .sort((a, b) => a.distance - b.distance || a.new_page.new_index! - b.new_page.new_index!);
+  const moved_old_pages = new Set<AlignedPage>();
+  for (const { old_page, new_page } of candidates) {
+    if (moved_old_pages.has(old_page) || new_page.status === 'moved') continue;
+    moved_old_pages.add(old_page);
+    new_page.status = 'moved';
+    new_page.old_index = old_page.old_index;
+  }
+  return aligned.filter(page => !moved_old_pages.has(page));
+}
+
+// Names for a run of new pages that sort strictly between two existing page names
+function fit_page_names(lower: string | null, upper: string | null, count: number): string[] | null {
+  let prefix = lower || '0000';
+  const width = String(count).length;
+  for (let depth = 0; depth < 4; depth++) {
+    const names = Array.from({ length: count }, (_, index) => `${prefix}_${String(index + 1).padStart(width, '0')}`);
+    if ((!lower || names[0] > lower) && (!upper || names[count - 1] < upper)) return names;
+    prefix += '_0';
+  }
+  return null;
+}
+
+/**
+ * Names the page images of a new rendering from its alignment with the previous one.
+ * Names are file names without the image extension ("0003" for "0003.png"); as "." sorts
+ * before "_" and the digits, they sort like the file names they stand for.
+ * Matched pages keep their previous name, so an unchanged page stays the same file even
+ * when pages are inserted or deleted before it. Inserted and moved pages get names that sort
+ * between their neighbours (e.g. "0003_1" after "0003"), so the file names stay in page
+ * order. Falls back to numbering the pages ("0001", ...) when that isn't possible.
+ * @returns The name of each new page, by new index.
+ */
+export function assign_page_names(aligned: AlignedPage[], old_names: string[], new_count: number): string[] {
+  const positional = Array.from({ length: new_count }, (_, index) => `${String(index + 1).padStart(4, '0')}`);
+  if (old_names.length === 0) return positional;
+
+  const names: string[] = new Array(new_count);
+  const new_pages = aligned.filter(page => page.new_index !== null);
+  let lower: string | null = null;
+  let run: number[] = []; // New indexes of pages waiting for a name
+  const name_run = (upper: string | null) => {
+    if (run.length === 0) return true;
+    const fitted = fit_page_names(lower, upper, run.length);
+    if (!fitted) return false;
+    run.forEach((new_index, index) => (names[new_index] = fitted[index]));
+    run = [];
+    return true;
+  };
+  for (const page of new_pages) {
+    if (page.status !== 'matched') {
+      run.push(page.new_index!);
+      continue;
+    }
+    const name = old_names[page.old_index!];
+    if (!name_run(name)) return positional;
+    names[page.new_index!] = name;
+    lower = name;
+  }
+  if (!name_run(null)) return positional;
+
+  // Matched pages keep their relative order, so this only fails on unexpected input
+  const in_order = names.every((name, index) => index === 0 || names[index - 1] < name);
+  return in_order ? names : positional;
+}
@@ -1,11 +1,24 @@
 import * as core from '@actions/core';
 import * as fs from 'fs';
 import * as path from 'path';
+import { encode_pixmap, IMAGE_EXTENSIONS } from './image_format.js';
+import { PreviewImageFormat } from './types.js';
 
-export async function convert_pdf_to_pngs(
+export interface PdfRenderOptions {
+  resolution_dpi: number;
+  format: PreviewImageFormat;
+  max_pixels: number; // Pages that would exceed this many pixels are rendered at a lower resolution (0 = no cap)
+}
+
+/**
+ * Renders each page of a PDF to "NNNN.<ext>" in the output directory (e.g. "0001.png").
+ * Oversized pages (posters, large drawings) are scaled down to max_pixels rather than
+ * producing images of hundreds of megabytes.
+ */
+export async function convert_pdf_to_images(
   pdf_file_path: string,
   output_image_dir: string,
-  resolution_dpi: number
+  options: PdfRenderOptions
 ): Promise<string[]> {
   const generated_files: string[] = [];
   const mupdfjs = await import("mupdf");
@@ -16,8 +29,7 @@ export async function convert_pdf_to_pngs(
     doc = mupdfjs.PDFDocument.openDocument(buffer, "application/pdf");
     const page_count = doc.countPages();
     await fs.promises.mkdir(output_image_dir, { recursive: true });
-    const scale = resolution_dpi / 72; // Standard PDF DPI is 72
-    const matrix = mupdfjs.Matrix.scale(scale, scale);
+    const scale = options.resolution_dpi / 72; // Standard PDF DPI is 72
 
     core.info(`   - Found ${page_count} page(s) in PDF.`);
 
@@ -25,23 +37,33 @@ export async function convert_pdf_to_pngs(
       const page_number = i + 1;
       core.debug(`   - Processing page ${page_number}...`);
       const page = doc.loadPage(i);
+      const [x0, y0, x1, y1] = page.getBounds();
+      const page_pixels = (x1 - x0) * (y1 - y0) * scale * scale;
+      let page_scale = scale;
+      if (options.max_pixels > 0 && page_pixels > options.max_pixels) {
+        page_scale = scale * Math.sqrt(options.max_pixels / page_pixels);
+        core.info(`   - Page ${page_number} is too large at ${options.resolution_dpi} DPI (${Math.round(page_pixels / 1e6)} MP), rendering it at ${Math.floor(page_scale * 72)} DPI.`);
+      }
+      const matrix = mupdfjs.Matrix.scale(page_scale, page_scale);
       const pixmap = page.toPixmap(matrix, mupdfjs.ColorSpace.DeviceRGB, false, true);
-      const png_image_data = pixmap.asPNG(); // Note: Typo in draft, should be asPNG()
-      const output_png_path = path.join(output_image_dir, `${String(page_number).padStart(4, '0')}.png`);
-
-      core.debug(`   - Writing PNG to: ${output_png_path}`);
-      await fs.promises.writeFile(output_png_path, png_image_data);
-      generated_files.push(output_png_path);
+      try {
+        const image_data = await encode_pixmap(pixmap, options.format);
+        const output_image_path = path.join(output_image_dir, `${String(page_number).padStart(4, '0')}${IMAGE_EXTENSIONS[options.format]}`);
 
-      // Clean up MuPDF objects for the current page
-      page.destroy();
-      pixmap.destroy();
+        core.debug(`   - Writing image to: ${output_image_path}`);
+        await fs.promises.writeFile(output_image_path, image_data);
+        generated_files.push(output_image_path);
+      } finally {
+        // Clean up MuPDF objects for the current page
+        page.destroy();
+        pixmap.destroy();
+      }
     }
 
-    core.info(`   - Successfully generated ${generated_files.length} PNG file(s).`);
+    core.info(`   - Successfully generated ${generated_files.length} ${options.format.toUpperCase()} file(s).`);
     return generated_files;
   } catch (error: unknown) {
-    core.error(`Error during PDF to PNG conversion for ${pdf_file_path}: ${(error as Error).message}`);
+    core.error(`Error during PDF to image conversion for ${pdf_file_path}: ${(error as Error).message}`);
     // Return whatever files were generated before the error
     return generated_files;
   } finally {
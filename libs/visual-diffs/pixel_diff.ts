@@ -0,0 +1,304 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import { decode_image, encode_image, MuPDF, RgbImage, scale_image } from './image_format.js';
+import { PreviewImageFormat } from './types.js';
+import { align_pages, assign_page_names, compute_page_hash } from './page_alignment.js';
+
+// Files written next to the page images of a document (e.g. "0001.png", or "0003_1.png" for a
+// page inserted after "0003.png", see assign_page_names). The suffixes go between the page name
+// and its extension, e.g. "0001.side-by-side.png" or "0001.thumb.webp" (see page_image_variant).
+export const DIFF_IMAGE_SUFFIX = '.diff'; // Changed pixels tinted on a faded copy of the page
+export const SIDE_BY_SIDE_IMAGE_SUFFIX = '.side-by-side'; // Before and after next to each other
+export const THUMBNAIL_IMAGE_SUFFIX = '.thumb'; // Small copy of the page for the PR overview
+export const PAGE_CHANGES_FILE = 'changes.json'; // Per-page status and change percentage
+const PAGE_IMAGE_REGEX = /^\d{4}(_\d+)*\.(png|jpg|webp)$/;
+const IMAGE_EXTENSION_REGEX = /\.(png|jpg|webp)$/;
+
+// A pixel only counts as changed when a color channel differs by more than this (0-255),
+// so anti-aliasing and compression noise along edges are ignored
+const PIXEL_TOLERANCE = 24;
+const SIDE_BY_SIDE_GAP = 16; // Pixels between the before and after images
+const FADE = 0.3; // Share of the original contrast kept for unchanged pixels in the diff image
+
+export interface PageChange {
+  page: string; // Page image file name, e.g. "0001.png"
+  status: 'added' | 'removed' | 'changed' | 'unchanged' | 'moved';
+  change_percent: number | null; // Share of pixels that changed (null for added/removed pages)
+  position: number | null; // 1-based page number in the new rendering (null for removed pages)
+  previous_page: string | null; // Page image it was compared with (null for added pages)
+  thumbnail: string | null; // Thumbnail image file name (null for removed pages or when disabled)
+}
+
+export interface PageChangeSummary {
+  threshold_percent: number;
+  pages: PageChange[];
+}
+
+export interface PageDiffOptions {
+  threshold_percent: number; // Minimum share of changed pixels (0-100) for a page to count as changed
+  format: PreviewImageFormat; // Format of the diff, side-by-side and thumbnail images
+  thumbnail_width: number; // Width of the page thumbnails in pixels (0 disables them)
+}
+
+/**
+ * True for page images rendered from a document, as opposed to the diff images next to them.
+ */
+export function is_page_image(file_path: string): boolean {
+  return PAGE_IMAGE_REGEX.test(path.basename(file_path));
+}
+
+/**
+ * Name of an image derived from a page image, in the page's format:
+ * ("0001.png", ".side-by-side") -> "0001.side-by-side.png".
+ */
+export function page_image_variant(page: string, suffix: string): string {
+  const extension = page.match(IMAGE_EXTENSION_REGEX)?.[0] || '';
+  return page.slice(0, page.length - extension.length) + suffix + extension;
+}
+
+// "0003_1.png" -> "0003_1"
+function page_name(page: string): string {
+  return page.replace(IMAGE_EXTENSION_REGEX, '');
+}
+
+function create_blank_image(width: number, height: number, value: number): RgbImage {
+  return { width, height, data: new Uint8Array(width * height * 3).fill(value) };
+}
+
+// Copies an image into a larger one at the given horizontal offset
+function draw_image(target: RgbImage, source: RgbImage, x_offset: number): void {
+  for (let y = 0; y < source.height; y++) {
+    target.data.set(
+      source.data.subarray(y * source.width * 3, (y + 1) * source.width * 3),
+      (y * target.width + x_offset) * 3
+    );
+  }
+}
+
+/**
+ * Compares two renderings of a page. Pages of different sizes are compared on the larger
+ * canvas; the area covered by only one of them counts as changed.
+ * @returns The share of changed pixels in percent and a mask of the changed pixels.
+ */
+function compare_images(before: RgbImage, after: RgbImage): { change_percent: number; changed_mask: Uint8Array; width: number; height: number } {
+  const width = Math.max(before.width, after.width);
+  const height = Math.max(before.height, after.height);
+  const changed_mask = new Uint8Array(width * height);
+  let changed_count = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let changed = x >= before.width || y >= before.height || x >= after.width || y >= after.height;
+      if (!changed) {
+        const b = (y * before.width + x) * 3;
+        const a = (y * after.width + x) * 3;
+        changed =
+          Math.abs(before.data[b] - after.data[a]) > PIXEL_TOLERANCE ||
+          Math.abs(before.data[b + 1] - after.data[a + 1]) > PIXEL_TOLERANCE ||
+          Math.abs(before.data[b + 2] - after.data[a + 2]) > PIXEL_TOLERANCE;
+      }
+      if (changed) {
+        changed_mask[y * width + x] = 1;
+        changed_count++;
+      }
+    }
+  }
+  const change_percent = width * height === 0 ? 0 : (changed_count / (width * height)) * 100;
+  return { change_percent, changed_mask, width, height };
+}
+
+// The after page faded out, with changed pixels tinted red
+function render_diff_image(after: RgbImage, changed_mask: Uint8Array, width: number, height: number): RgbImage {
+  const diff = create_blank_image(width, height, 255);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 3;
+      const inside = x < after.width && y < after.height;
+      const a = (y * after.width + x) * 3;
+      for (let c = 0; c < 3; c++) {
+        const value = inside ? after.data[a + c] : 255;
+        if (changed_mask[y * width + x]) {
+          diff.data[i + c] = c === 0 ? 255 : Math.round(value * FADE);
+        } else {
+          diff.data[i + c] = Math.round(255 - (255 - value) * FADE);
+        }
+      }
+    }
+  }
+  return diff;
+}
+
+function render_side_by_side_image(before: RgbImage, after: RgbImage): RgbImage {
+  const composite = create_blank_image(
+    before.width + SIDE_BY_SIDE_GAP + after.width,
+    Math.max(before.height, after.height),
+    255
+  );
+  for (let y = 0; y < composite.height; y++) {
+    const gap_start = (y * composite.width + before.width) * 3;
+    composite.data.fill(200, gap_start, gap_start + SIDE_BY_SIDE_GAP * 3);
+  }
+  draw_image(composite, before, 0);
+  draw_image(composite, after, before.width + SIDE_BY_SIDE_GAP);
+  return composite;
+}
+
+/**
+ * Reads the page images of an earlier rendering, before the output directory is regenerated.
+ */
+export async function read_page_images(image_dir: string): Promise<Map<string, Buffer>> {
+  const pages = new Map<string, Buffer>();
+  let file_names: string[];
+  try {
+    file_names = await fs.promises.readdir(image_dir);
+  } catch {
+    return pages; // Not rendered before
+  }
+  for (const file_name of file_names.filter(is_page_image).sort()) {
+    pages.set(file_name, await fs.promises.readFile(path.join(image_dir, file_name)));
+  }
+  return pages;
+}
+
+/**
+ * Compares a page with its previous rendering. Below the threshold the previous image is
+ * restored (when it has the same format), so re-rendering noise doesn't show up in the PR;
+ * otherwise a diff image and a side-by-side composite are written next to the page.
+ * @returns The rounded share of changed pixels, or null if the images couldn't be compared.
+ */
+async function compare_page(
+  mupdf: MuPDF,
+  image_dir: string,
+  page: string,
+  previous_page: string,
+  previous_image: Buffer,
+  options: PageDiffOptions
+): Promise<{ changed: boolean; change_percent: number | null }> {
+  const page_path = path.join(image_dir, page);
+  try {
+    const before = await decode_image(mupdf, previous_image, previous_page);
+    const after = await decode_image(mupdf, await fs.promises.readFile(page_path), page);
+    const { change_percent, changed_mask, width, height } = compare_images(before, after);
+    const rounded_percent = Math.round(change_percent * 100) / 100;
+    if (change_percent < options.threshold_percent) {
+      core.debug(`   - ${page}: ${rounded_percent}% of pixels changed (below ${options.threshold_percent}%), keeping the previous image.`);
+      if (path.extname(previous_page) === path.extname(page)) await fs.promises.writeFile(page_path, previous_image);
+      return { changed: false, change_percent: rounded_percent };
+    }
+    core.info(`   - ${page}: ${rounded_percent}% of pixels changed.`);
+    await fs.promises.writeFile(
+      path.join(image_dir, page_image_variant(page, DIFF_IMAGE_SUFFIX)),
+      await encode_image(mupdf, render_diff_image(after, changed_mask, width, height), options.format)
+    );
+    await fs.promises.writeFile(
+      path.join(image_dir, page_image_variant(page, SIDE_BY_SIDE_IMAGE_SUFFIX)),
+      await encode_image(mupdf, render_side_by_side_image(before, after), options.format)
+    );
+    return { changed: true, change_percent: rounded_percent };
+  } catch (error: unknown) {
+    core.warning(`   - Failed to compare ${page_path} with its previous version: ${(error as Error).message}`);
+    return { changed: true, change_percent: null };
+  }
+}
+
+/**
+ * Writes a thumbnail of a page next to it, scaled down from the page as it ends up in the
+ * output directory (so a page kept from the previous rendering keeps the same thumbnail).
+ * @returns The thumbnail file name, or null if it couldn't be written.
+ */
+async function write_thumbnail(mupdf: MuPDF, image_dir: string, page: string, options: PageDiffOptions): Promise<string | null> {
+  const thumbnail = page_image_variant(page, THUMBNAIL_IMAGE_SUFFIX);
+  try {
+    const image = await decode_image(mupdf, await fs.promises.readFile(path.join(image_dir, page)), page);
+    await fs.promises.writeFile(
+      path.join(image_dir, thumbnail),
+      await encode_image(mupdf, scale_image(image, options.thumbnail_width), options.format)
+    );
+    return thumbnail;
+  } catch (error: unknown) {
+    core.warning(`   - Failed to write the thumbnail of ${page}: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+/**
+ * Compares freshly rendered page images with the previous rendering of the same document.
+ * Pages are first aligned by perceptual hash (see align_pages), so a page inserted or deleted
+ * near the start doesn't make every following page look modified: the new images are renamed
+ * after the alignment, matched pages keeping their previous name.
+ * Each matched page is then compared pixel by pixel with its previous version; pages whose
+ * share of changed pixels is below the threshold are treated as unchanged. Moved pages are
+ * compared with the page they came from. Every page then gets a thumbnail (unless disabled),
+ * and the per-page result is written to changes.json.
+ *
+ * @param image_dir Directory holding the new page images, numbered in page order.
+ * @param previous_pages Page images of the previous rendering, by file name (see read_page_images).
+ * @param options Change threshold, output format and thumbnail width.
+ */
+export async function generate_page_diffs(
+  image_dir: string,
+  previous_pages: Map<string, Buffer>,
+  options: PageDiffOptions
+): Promise<PageChangeSummary> {
+  const mupdf = await import('mupdf');
+  const summary: PageChangeSummary = { threshold_percent: options.threshold_percent, pages: [] };
+  const rendered_pages = (await fs.promises.readdir(image_dir)).filter(is_page_image).sort();
+  const new_images = await Promise.all(rendered_pages.map(page => fs.promises.readFile(path.join(image_dir, page))));
+  const old_pages = Array.from(previous_pages.keys()).sort();
+
+  // Pages that can't be decoded get a hash of their own, so they are never matched by content
+  const hash_page = async (image: Buffer, page: string) => {
+    try {
+      return compute_page_hash(await decode_image(mupdf, image, page));
+    } catch (error: unknown) {
+      core.warning(`   - Failed to read ${page} for page matching: ${(error as Error).message}`);
+      return -1n;
+    }
+  };
+  const old_hashes: bigint[] = [];
+  for (const page of old_pages) old_hashes.push(await hash_page(previous_pages.get(page)!, page));
+  const new_hashes: bigint[] = [];
+  for (const [index, image] of new_images.entries()) new_hashes.push(await hash_page(image, rendered_pages[index]));
+  const aligned = align_pages(old_hashes, new_hashes);
+
+  // Names are assigned without extensions, so a change of format doesn't break the matching
+  const new_names = assign_page_names(aligned, old_pages.map(page_name), new_images.length).map(
+    (name, index) => name + path.extname(rendered_pages[index])
+  );
+  for (const page of rendered_pages) await fs.promises.rm(path.join(image_dir, page));
+  for (const [index, image] of new_images.entries()) await fs.promises.writeFile(path.join(image_dir, new_names[index]), image);
+
+  for (const { status, old_index, new_index } of aligned) {
+    if (status === 'deleted') {
+      summary.pages.push({ page: old_pages[old_index!], status: 'removed', change_percent: null, position: null, previous_page: old_pages[old_index!], thumbnail: null });
+      continue;
+    }
+    const page = new_names[new_index!];
+    const position = new_index! + 1;
+    if (status === 'inserted') {
+      summary.pages.push({ page, status: 'added', change_percent: null, position, previous_page: null, thumbnail: null });
+      continue;
+    }
+    const previous_page = old_pages[old_index!];
+    const { changed, change_percent } = await compare_page(mupdf, image_dir, page, previous_page, previous_pages.get(previous_page)!, options);
+    if (status === 'moved') core.info(`   - ${page}: moved from ${previous_page}.`);
+    summary.pages.push({
+      page,
+      status: status === 'moved' ? 'moved' : changed ? 'changed' : 'unchanged',
+      change_percent,
+      position,
+      previous_page,
+      thumbnail: null,
+    });
+  }
+
+  if (options.thumbnail_width > 0) {
+    for (const page_change of summary.pages) {
+      if (page_change.status === 'removed') continue;
+      page_change.thumbnail = await write_thumbnail(mupdf, image_dir, page_change.page, options);
+    }
+  }
+
+  await fs.promises.writeFile(path.join(image_dir, PAGE_CHANGES_FILE), JSON.stringify(summary, null, 2) + '\n');
+  return summary;
+}
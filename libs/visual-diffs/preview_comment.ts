@@ -0,0 +1,102 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PAGE_CHANGES_FILE, page_image_variant, PageChangeSummary, SIDE_BY_SIDE_IMAGE_SUFFIX } from './pixel_diff.js';
+import { PreviewStore } from './preview_storage.js';
+import { GenerateVisualDiffsParams } from './types.js';
+
+// Marks the comment, so later runs update it instead of adding a new one
+const PREVIEW_COMMENT_MARKER = '<!-- visual-diff-previews -->';
+
+const STORAGE_LABELS: Record<string, string> = {
+  'orphan-branch': 'the `visual-diffs` branch',
+  'artifact': 'the workflow artifact',
+  'drive': 'the Drive folder',
+};
+
+async function read_page_changes(store: PreviewStore, relative_dir: string): Promise<PageChangeSummary | null> {
+  try {
+    return JSON.parse(await fs.promises.readFile(path.join(store.root, relative_dir, PAGE_CHANGES_FILE), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lists the changed pages of each rendered document, with links to the images in the store.
+ * Pages show their thumbnail (the full-size image when thumbnails are disabled), linking to
+ * the side-by-side image for changed pages and to the page itself for added pages. Stores
+ * whose images GitHub can't fetch only get the links.
+ */
+async function format_preview_comment(store: PreviewStore, rendered_dirs: string[], removed_dirs: string[]): Promise<string> {
+  const overview_url = store.get_overview_url();
+  const storage_label = STORAGE_LABELS[store.storage] || store.storage;
+  const lines = [
+    PREVIEW_COMMENT_MARKER,
+    '## Visual Diff Previews',
+    '',
+    overview_url ? `Rendered pages are stored in [${storage_label}](${overview_url}).` : `Rendered pages are stored in ${storage_label}.`,
+  ];
+
+  for (const relative_dir of rendered_dirs) {
+    lines.push('', `### ${relative_dir}`, '');
+    const summary = await read_page_changes(store, relative_dir);
+    const pages = summary?.pages.filter(page => page.status !== 'unchanged') || [];
+    if (!summary) {
+      lines.push('_No page comparison available._');
+      continue;
+    }
+    if (pages.length === 0) {
+      lines.push('_No visible changes._');
+      continue;
+    }
+    for (const page of pages) {
+      const label = page.position ? `Page ${page.position}` : page.page;
+      const image_file = page.status === 'changed' ? page_image_variant(page.page, SIDE_BY_SIDE_IMAGE_SUFFIX) : page.page;
+      const image_url = page.status === 'changed' || page.status === 'added' ? store.get_url(`${relative_dir}/${image_file}`) : null;
+      const preview_url = page.thumbnail ? store.get_url(`${relative_dir}/${page.thumbnail}`) : image_url;
+      const details =
+        page.status === 'changed' ? `changed${page.change_percent !== null ? ` (${page.change_percent}% of pixels)` : ''}` :
+        page.status === 'moved' ? `moved (previously ${page.previous_page})` :
+        page.status;
+      lines.push(`- **${label}**: ${details}`);
+      if (image_url && store.embeds_images) {
+        lines.push(`  <br><a href="${image_url}"><img src="${preview_url}" alt="${label}"${page.thumbnail ? '' : ' width="600"'}></a>`);
+      } else if (image_url) {
+        lines.push(`  <br>[View ${page.status === 'changed' ? 'side by side' : 'page'}](${image_url})`);
+      }
+    }
+  }
+  for (const relative_dir of removed_dirs) {
+    lines.push('', `### ${relative_dir}`, '', '_Removed from the PR; its previews were deleted._');
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Posts (or updates) the PR comment pointing at the previews, for stores other than the PR
+ * branch itself, where the PNGs would show up in the diff instead.
+ */
+export async function post_preview_comment(
+  params: GenerateVisualDiffsParams,
+  store: PreviewStore,
+  rendered_dirs: string[],
+  removed_dirs: string[]
+): Promise<void> {
+  const body = await format_preview_comment(store, rendered_dirs, removed_dirs);
+  try {
+    const comments = await params.octokit.paginate(params.octokit.rest.issues.listComments, {
+      owner: params.owner, repo: params.repo, issue_number: params.pr_number, per_page: 100,
+    });
+    const existing = comments.find(comment => comment.body?.startsWith(PREVIEW_COMMENT_MARKER));
+    if (existing) {
+      await params.octokit.rest.issues.updateComment({ owner: params.owner, repo: params.repo, comment_id: existing.id, body });
+      core.info(`Updated visual diff preview comment on PR #${params.pr_number}.`);
+    } else {
+      await params.octokit.rest.issues.createComment({ owner: params.owner, repo: params.repo, issue_number: params.pr_number, body });
+      core.info(`Posted visual diff preview comment on PR #${params.pr_number}.`);
+    }
+  } catch (error: unknown) {
+    core.warning(`Failed to post the visual diff preview comment on PR #${params.pr_number}: ${(error as Error).message}`);
+  }
+}
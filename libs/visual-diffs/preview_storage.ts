@@ -0,0 +1,427 @@
+import * as core from '@actions/core';
+import { DefaultArtifactClient } from '@actions/artifact';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { drive_v3 } from 'googleapis';
+import { execute_git, GitResult } from '../git.js';
+import { run_in_drive_pool } from '../google-drive/pool.js';
+import { is_page_image } from './pixel_diff.js';
+import { GenerateVisualDiffsParams, VisualDiffStorage } from './types.js';
+
+export const VISUAL_DIFFS_BRANCH = 'visual-diffs'; // Orphan branch holding the previews of all PRs
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+/**
+ * Where rendered previews live. Rendering always happens in a local directory mirroring the
+ * output_base_dir layout (root); the store restores the previous rendering there, so pages can
+ * be diffed against it, and publishes the result afterwards.
+ */
+export interface PreviewStore {
+  storage: VisualDiffStorage;
+  root: string; // Local directory the previews are rendered into (e.g. "_diff_" for "branch")
+  // Brings back the previous rendering of one document (path relative to root)
+  restore(relative_dir: string): Promise<void>;
+  // Publishes the documents rendered or cleaned up in this run (paths relative to root)
+  publish(changed_dirs: string[], commit_message: string): Promise<void>;
+  // URL of a published file, or null if the backend has no per-file URLs (artifacts)
+  get_url(relative_path: string): string | null;
+  // URL of all previews of the PR (artifact page, branch folder, Drive folder)
+  get_overview_url(): string | null;
+  // False when GitHub's image proxy can't fetch the files (private Drive previews): they are linked instead
+  embeds_images: boolean;
+  close(): Promise<void>;
+}
+
+/**
+ * Stages, commits, and pushes changes within a specified directory.
+ */
+async function stage_commit_and_push_changes(
+  changes_dir: string,
+  commit_message: string,
+  git_user_email: string,
+  git_user_name: string,
+  target_branch: string // Need the branch name for the push command
+): Promise<void> {
+  core.startGroup(`Committing and Pushing changes in '${changes_dir}' to branch '${target_branch}'`);
+  try {
+    // Configure Git user for this commit action
+    core.info(`Configuring Git user: ${git_user_name} <${git_user_email}>`);
+    await execute_git("config", ["--local", "user.email", git_user_email]);
+    await execute_git("config", ["--local", "user.name", git_user_name]);
+
+    core.info(`Adding changes within '${changes_dir}' to Git index...`);
+    // Add the specific base directory. This will stage:
+    // - New files created within it.
+    // - Modified files within it.
+    // - Deletions of files/directories within it (because they are gone from the filesystem
+    //   compared to the index/HEAD state).
+    await execute_git('add', [changes_dir]);
+
+    // Check if there are staged changes *within the target directory*
+    const status_result: GitResult = await execute_git(
+      'status',
+      ['--porcelain', '--', changes_dir], // Limit status check to the target dir
+      { ignoreReturnCode: true, silent: true } // Silence expected output
+    );
+
+    if (status_result.exitCode !== 0) {
+      core.warning(`Git status check failed with code ${status_result.exitCode}. Stderr: ${status_result.stderr}`);
+      // Proceeding, but this might indicate an issue.
+    }
+
+    if (!status_result.stdout.trim()) {
+      core.info(`No staged changes detected within '${changes_dir}' after add operation. Nothing to commit.`);
+      core.endGroup();
+      return; // Exit cleanly, nothing to do
+    }
+    core.info("Staged changes detected within target directory.");
+    core.debug("Staged changes:\n" + status_result.stdout);
+
+    core.info('Committing staged changes...');
+    await execute_git('commit', ['-m', commit_message]);
+
+    core.info(`Pushing changes to branch ${target_branch}...`);
+    // Using --force as this branch is assumed to be managed by the action. Adjust if needed.
+    await execute_git('push', ['--force', 'origin', target_branch]);
+
+    core.info('Changes pushed successfully.');
+
+  } catch (error: any) {
+    core.error(`Failed to stage, commit, or push changes: ${error.message}`);
+    if (error.stderr) { // If the error object has stderr (e.g., from execute_git)
+      core.error(`Git command stderr: ${error.stderr}`);
+    }
+    throw error; // Re-throw to indicate failure
+  } finally {
+    // Optional: Unset git config if needed, though usually not required in CI runners
+    // await execute_git("config", ["--local", "--unset", "user.email"]);
+    // await execute_git("config", ["--local", "--unset", "user.name"]);
+    core.endGroup();
+  }
+}
+
+// --- "branch": PNGs are committed to the PR branch (previous rendering = checked-out files) ---
+function create_branch_store(params: GenerateVisualDiffsParams): PreviewStore {
+  return {
+    storage: 'branch',
+    embeds_images: true,
+    root: params.output_base_dir,
+    restore: async () => { },
+    publish: async (_changed_dirs, commit_message) => {
+      // stage_commit_and_push_changes stages the deletions made by fs.rm as well,
+      // as 'git add params.output_base_dir' is called.
+      await stage_commit_and_push_changes(
+        params.output_base_dir, // Directory containing all changes (additions and deletions)
+        commit_message,
+        params.git_user_email,
+        params.git_user_name,
+        params.head_branch // Branch to push to
+      );
+
+      // Debug post-commit Git state
+      core.debug('Debugging post-commit Git state...');
+      try {
+        const postCommitBranch = await execute_git('rev-parse', ['--abbrev-ref', 'HEAD'], { silent: true });
+        core.debug(`Post-commit branch is now: ${postCommitBranch.stdout.trim()}`); // Should still be head_branch
+        const postCommitHead = await execute_git('rev-parse', ['HEAD'], { silent: true });
+        core.debug(`Post-commit HEAD SHA: ${postCommitHead.stdout.trim()}`);
+        const postCommitLog = await execute_git('log', ['-1', '--pretty=%H %s'], { silent: true });
+        core.debug(`Latest commit on local branch:\n${postCommitLog.stdout}`);
+      } catch (gitError: any) {
+        core.warning(`Could not get post-commit git debug info: ${gitError.message}`);
+      }
+    },
+    get_url: () => null, // Shown in the PR diff itself
+    get_overview_url: () => null,
+    close: async () => { },
+  };
+}
+
+// --- "orphan-branch": one folder per PR on a branch that shares no history with the code ---
+async function create_orphan_branch_store(params: GenerateVisualDiffsParams): Promise<PreviewStore> {
+  const worktree_dir = await fs.promises.mkdtemp(path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'visual-diffs-branch-'));
+  const pr_dir = `pr-${params.pr_number}`;
+  let published_sha: string | null = null;
+
+  const fetch_result = await execute_git('fetch', ['origin', `+refs/heads/${VISUAL_DIFFS_BRANCH}:refs/remotes/origin/${VISUAL_DIFFS_BRANCH}`], { ignoreReturnCode: true, silent: true });
+  if (fetch_result.exitCode === 0) {
+    core.info(`Using existing branch '${VISUAL_DIFFS_BRANCH}' for the previews.`);
+    await execute_git('worktree', ['add', '--detach', worktree_dir, `origin/${VISUAL_DIFFS_BRANCH}`]);
+  } else {
+    core.info(`Branch '${VISUAL_DIFFS_BRANCH}' doesn't exist yet. It will be created without history.`);
+    await execute_git('worktree', ['add', '--detach', worktree_dir]);
+    await execute_git('checkout', ['--orphan', `${VISUAL_DIFFS_BRANCH}-${params.pr_number}`], { cwd: worktree_dir });
+    await execute_git('rm', ['-rfq', '--ignore-unmatch', '.'], { cwd: worktree_dir });
+  }
+  await execute_git('config', ['user.email', params.git_user_email], { cwd: worktree_dir });
+  await execute_git('config', ['user.name', params.git_user_name], { cwd: worktree_dir });
+
+  return {
+    storage: 'orphan-branch',
+    embeds_images: true,
+    root: path.join(worktree_dir, pr_dir),
+    restore: async () => { },
+    publish: async (_changed_dirs, commit_message) => {
+      await execute_git('add', ['-A', pr_dir], { cwd: worktree_dir });
+      const status = await execute_git('status', ['--porcelain', '--', pr_dir], { cwd: worktree_dir, silent: true });
+      if (!status.stdout.trim()) {
+        core.info(`No preview changes for PR #${params.pr_number} on branch '${VISUAL_DIFFS_BRANCH}'.`);
+        const head = await execute_git('rev-parse', ['HEAD'], { cwd: worktree_dir, ignoreReturnCode: true, silent: true });
+        published_sha = head.exitCode === 0 ? head.stdout.trim() : null; // Nothing committed yet on a new branch
+        return;
+      }
+      await execute_git('commit', ['-m', commit_message], { cwd: worktree_dir });
+      // Runs for other PRs may have pushed in the meantime; they only touch their own folder
+      for (let attempt = 1; ; attempt++) {
+        const push = await execute_git('push', ['origin', `HEAD:refs/heads/${VISUAL_DIFFS_BRANCH}`], { cwd: worktree_dir, ignoreReturnCode: true });
+        if (push.exitCode === 0) break;
+        if (attempt === 3) throw new Error(`Failed to push previews to '${VISUAL_DIFFS_BRANCH}': ${push.stderr}`);
+        core.info(`Push to '${VISUAL_DIFFS_BRANCH}' was rejected. Rebasing on the latest previews and retrying...`);
+        await execute_git('fetch', ['origin', `+refs/heads/${VISUAL_DIFFS_BRANCH}:refs/remotes/origin/${VISUAL_DIFFS_BRANCH}`], { cwd: worktree_dir });
+        await execute_git('rebase', [`origin/${VISUAL_DIFFS_BRANCH}`], { cwd: worktree_dir });
+      }
+      published_sha = (await execute_git('rev-parse', ['HEAD'], { cwd: worktree_dir, silent: true })).stdout.trim();
+      core.info(`Previews published to branch '${VISUAL_DIFFS_BRANCH}' at ${published_sha}.`);
+    },
+    // Pinned to the published commit, so a comment keeps showing the images it was written for
+    get_url: (relative_path) => published_sha
+      ? `https://github.com/${params.owner}/${params.repo}/blob/${published_sha}/${pr_dir}/${encode_path(relative_path)}?raw=true`
+      : null,
+    get_overview_url: () => published_sha
+      ? `https://github.com/${params.owner}/${params.repo}/tree/${published_sha}/${pr_dir}`
+      : null,
+    close: async () => {
+      await execute_git('worktree', ['remove', '--force', worktree_dir], { ignoreReturnCode: true, silent: true });
+    },
+  };
+}
+
+// --- "artifact": all previews of the PR are uploaded as one Actions artifact per run ---
+async function create_artifact_store(params: GenerateVisualDiffsParams): Promise<PreviewStore> {
+  const root = await fs.promises.mkdtemp(path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'visual-diffs-artifact-'));
+  const artifact_name = `visual-diffs-pr-${params.pr_number}`;
+  const artifact_client = new DefaultArtifactClient();
+  let artifact_url: string | null = null;
+
+  // The previous run's artifact holds the previous rendering of every document of the PR
+  try {
+    const { data } = await params.octokit.rest.actions.listArtifactsForRepo({
+      owner: params.owner, repo: params.repo, name: artifact_name, per_page: 1,
+    });
+    const previous = data.artifacts.find(artifact => !artifact.expired && artifact.workflow_run?.id);
+    if (previous) {
+      core.info(`Restoring previous previews from artifact '${artifact_name}' (ID: ${previous.id}).`);
+      await artifact_client.downloadArtifact(previous.id, {
+        path: root,
+        findBy: {
+          token: core.getInput('github_token'),
+          workflowRunId: previous.workflow_run!.id!,
+          repositoryOwner: params.owner,
+          repositoryName: params.repo,
+        },
+      });
+    } else {
+      core.info(`No previous artifact '${artifact_name}' found. All pages count as added.`);
+    }
+  } catch (error: unknown) {
+    core.warning(`Failed to restore previous previews from artifact '${artifact_name}': ${(error as Error).message}`);
+  }
+
+  return {
+    storage: 'artifact',
+    embeds_images: true,
+    root,
+    restore: async () => { },
+    publish: async () => {
+      const files = await list_files_recursively(root);
+      if (files.length === 0) {
+        core.info('No previews left for this PR. Skipping artifact upload.');
+        return;
+      }
+      const upload = await artifact_client.uploadArtifact(artifact_name, files, root);
+      core.info(`Uploaded ${files.length} preview file(s) as artifact '${artifact_name}' (ID: ${upload.id ?? 'unknown'}).`);
+      if (upload.id && process.env.GITHUB_RUN_ID) {
+        artifact_url = `https://github.com/${params.owner}/${params.repo}/actions/runs/${process.env.GITHUB_RUN_ID}/artifacts/${upload.id}`;
+      }
+    },
+    get_url: () => null, // Artifacts are only downloadable as a whole
+    get_overview_url: () => artifact_url,
+    close: async () => {
+      await fs.promises.rm(root, { recursive: true, force: true });
+    },
+  };
+}
+
+// --- "drive": previews are uploaded to a Drive folder, one subfolder per PR ---
+async function create_drive_store(params: GenerateVisualDiffsParams): Promise<PreviewStore> {
+  if (!params.drive_folder_id) {
+    throw new Error("Visual diff storage 'drive' needs a Drive folder ID (visual_diff_drive_folder_id).");
+  }
+  const drive = params.drive;
+  const root = await fs.promises.mkdtemp(path.join(process.env.RUNNER_TEMP || os.tmpdir(), 'visual-diffs-drive-'));
+  const file_ids = new Map<string, string>(); // Relative path -> Drive file ID of published files
+  const pr_folder_id = await find_drive_folder(drive, params.drive_folder_id, `pr-${params.pr_number}`, true);
+  if (params.drive_public) {
+    // GitHub fetches comment images through its proxy without reviewer cookies, so embedded
+    // images need link sharing. Files and subfolders inherit it from the PR folder.
+    await run_in_drive_pool(() => drive.permissions.create({
+      fileId: pr_folder_id!, requestBody: { type: 'anyone', role: 'reader' }, supportsAllDrives: true,
+    }));
+    core.info(`Shared Drive preview folder pr-${params.pr_number} with anyone with the link.`);
+  }
+
+  // Walks (and optionally creates) the folders of a relative directory under the PR folder
+  const resolve_folder = async (relative_dir: string, create: boolean) => {
+    let folder_id: string | null = pr_folder_id;
+    for (const name of relative_dir.split('/').filter(Boolean)) {
+      folder_id = await find_drive_folder(drive, folder_id!, name, create);
+      if (!folder_id) return null;
+    }
+    return folder_id;
+  };
+
+  return {
+    storage: 'drive',
+    embeds_images: params.drive_public,
+    root,
+    restore: async (relative_dir) => {
+      const folder_id = await resolve_folder(relative_dir, false);
+      if (!folder_id) return; // Not rendered before
+      const local_dir = path.join(root, relative_dir);
+      await fs.promises.mkdir(local_dir, { recursive: true });
+      for (const file of await list_drive_folder(drive, folder_id)) {
+        if (file.mimeType === FOLDER_MIME_TYPE || !is_page_image(file.name!)) continue;
+        const response = await run_in_drive_pool(() => drive.files.get(
+          { fileId: file.id!, alt: 'media', supportsAllDrives: true },
+          { responseType: 'arraybuffer' }
+        ));
+        await fs.promises.writeFile(path.join(local_dir, file.name!), Buffer.from(response.data as ArrayBuffer));
+      }
+      core.info(`   - Restored previous previews of ${relative_dir} from Drive.`);
+    },
+    publish: async (changed_dirs) => {
+      for (const relative_dir of changed_dirs) {
+        const local_dir = path.join(root, relative_dir);
+        const local_files = await fs.promises.readdir(local_dir).catch(() => null);
+        if (!local_files) {
+          // Document removed from the PR: trash its folder
+          const folder_id = await resolve_folder(relative_dir, false);
+          if (folder_id) {
+            await run_in_drive_pool(() => drive.files.update({ fileId: folder_id, requestBody: { trashed: true }, supportsAllDrives: true }));
+            core.info(`Trashed previews of ${relative_dir} in Drive.`);
+          }
+          continue;
+        }
+        const folder_id = (await resolve_folder(relative_dir, true))!;
+        const remote_files = new Map((await list_drive_folder(drive, folder_id)).map(file => [file.name!, file.id!]));
+        for (const file_name of local_files) {
+          const media = () => ({ mimeType: get_preview_mime_type(file_name), body: fs.createReadStream(path.join(local_dir, file_name)) });
+          const existing_id = remote_files.get(file_name);
+          const response = existing_id
+            ? await run_in_drive_pool(() => drive.files.update({ fileId: existing_id, media: media(), fields: 'id', supportsAllDrives: true }))
+            : await run_in_drive_pool(() => drive.files.create({ requestBody: { name: file_name, parents: [folder_id] }, media: media(), fields: 'id', supportsAllDrives: true }));
+          file_ids.set(`${relative_dir}/${file_name}`, response.data.id!);
+        }
+        for (const [file_name, file_id] of remote_files) {
+          if (local_files.includes(file_name)) continue;
+          await run_in_drive_pool(() => drive.files.update({ fileId: file_id, requestBody: { trashed: true }, supportsAllDrives: true }));
+        }
+        core.info(`Uploaded ${local_files.length} preview file(s) of ${relative_dir} to Drive.`);
+      }
+    },
+    // Embeddable image URLs need link sharing (drive_public); otherwise link the Drive viewer,
+    // which works for reviewers the folder is shared with
+    get_url: (relative_path) => {
+      const file_id = file_ids.get(relative_path);
+      if (!file_id) return null;
+      return params.drive_public ? `https://drive.google.com/uc?export=view&id=${file_id}` : `https://drive.google.com/file/d/${file_id}/view`;
+    },
+    get_overview_url: () => `https://drive.google.com/drive/folders/${pr_folder_id}`,
+    close: async () => {
+      await fs.promises.rm(root, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Opens the preview store selected by the `storage` setting.
+ */
+export async function open_preview_store(params: GenerateVisualDiffsParams): Promise<PreviewStore> {
+  core.info(`Visual diff storage: ${params.storage}`);
+  let store: PreviewStore;
+  switch (params.storage) {
+    case 'orphan-branch':
+      store = await create_orphan_branch_store(params);
+      break;
+    case 'artifact':
+      store = await create_artifact_store(params);
+      break;
+    case 'drive':
+      store = await create_drive_store(params);
+      break;
+    default:
+      store = create_branch_store(params);
+  }
+  await fs.promises.mkdir(store.root, { recursive: true });
+  return store;
+}
+
+function encode_path(relative_path: string): string {
+  return relative_path.split('/').map(encodeURIComponent).join('/');
+}
+
+function get_preview_mime_type(file_name: string): string {
+  if (file_name.endsWith('.png')) return 'image/png';
+  if (file_name.endsWith('.jpg')) return 'image/jpeg';
+  if (file_name.endsWith('.webp')) return 'image/webp';
+  if (file_name.endsWith('.json')) return 'application/json';
+  return 'application/octet-stream';
+}
+
+async function list_files_recursively(dir: string): Promise<string[]> {
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entry_path = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...await list_files_recursively(entry_path));
+    else files.push(entry_path);
+  }
+  return files;
+}
+
+async function list_drive_folder(drive: drive_v3.Drive, folder_id: string): Promise<drive_v3.Schema$File[]> {
+  const files: drive_v3.Schema$File[] = [];
+  let page_token: string | undefined = undefined;
+  do {
+    const response: { data: drive_v3.Schema$FileList } = await run_in_drive_pool(() => drive.files.list({
+      q: `'${folder_id}' in parents and trashed = false`,
+      fields: 'nextPageToken, files(id, name, mimeType)',
+      includeItemsFromAllDrives: true,
+      supportsAllDrives: true,
+      pageSize: 1000,
+      pageToken: page_token,
+    }));
+    files.push(...(response.data.files || []));
+    page_token = response.data.nextPageToken || undefined;
+  } while (page_token);
+  return files;
+}
+
+async function find_drive_folder(drive: drive_v3.Drive, parent_id: string, name: string, create: boolean): Promise<string | null> {
+  const response = await run_in_drive_pool(() => drive.files.list({
+    q: `'${parent_id}' in parents and mimeType = '${FOLDER_MIME_TYPE}' and name = '${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}' and trashed = false`,
+    fields: 'files(id)',
+    includeItemsFromAllDrives: true,
+    supportsAllDrives: true,
+    pageSize: 1,
+  }));
+  const existing_id = response.data.files?.[0]?.id;
+  if (existing_id || !create) return existing_id || null;
+  const folder = await run_in_drive_pool(() => drive.files.create({
+    requestBody: { name, mimeType: FOLDER_MIME_TYPE, parents: [parent_id] },
+    fields: 'id',
+    supportsAllDrives: true,
+  }));
+  return folder.data.id!;
+}
@@ -1,6 +1,15 @@
 import { drive_v3 } from 'googleapis';
 import { Octokit } from '@octokit/rest';
 
+// Where rendered previews are stored: committed to the PR branch, committed to the orphan
+// "visual-diffs" branch, uploaded as a workflow artifact, or uploaded to a Drive folder
+export type VisualDiffStorage = 'branch' | 'orphan-branch' | 'artifact' | 'drive';
+export const VISUAL_DIFF_STORAGES: VisualDiffStorage[] = ['branch', 'orphan-branch', 'artifact', 'drive'];
+
+// Image format of the rendered pages, diff images and thumbnails (WebP needs cwebp/dwebp on the runner)
+export type PreviewImageFormat = 'png' | 'jpeg' | 'webp';
+export const PREVIEW_IMAGE_FORMATS: PreviewImageFormat[] = ['png', 'jpeg', 'webp'];
+
 export interface GenerateVisualDiffsParams {
   octokit: Octokit;
   drive: drive_v3.Drive;
@@ -12,6 +21,14 @@ export interface GenerateVisualDiffsParams {
   output_base_dir: string;
   link_file_suffix: string;
   resolution_dpi: number;
+  image_format: PreviewImageFormat;
+  max_pixels: number; // Pages are rendered at a lower resolution rather than exceed this many pixels (0 = no cap)
+  thumbnail_width: number; // Width of the page thumbnails in the preview comment (0 = no thumbnails)
+  change_threshold_percent: number; // Pages with fewer changed pixels (in %) count as unchanged
+  office_converter: string; // Command rendering committed Office files as PDF ({input}, {output_dir})
+  storage: VisualDiffStorage;
+  drive_folder_id: string | null; // Drive folder holding the previews (storage "drive")
+  drive_public: boolean; // Share the Drive previews with anyone with the link, so the comment can embed them
   git_user_name: string;
   git_user_email: string;
 }